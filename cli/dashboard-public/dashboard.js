@@ -113,6 +113,7 @@ class AireerDashboard {
 
         this.updateSystemStatus(data.systemStatus);
         this.updateExecutionStats(data.executionStats);
+        this.updateBudget(data.budget);
         this.updateRoutines(data.routines);
         this.updateRecentExecutions(data.recentExecutions);
         this.updateLastUpdateTime();
@@ -181,6 +182,21 @@ class AireerDashboard {
             stats.lastExecution ? this.formatDateTime(stats.lastExecution) : '--');
     }
 
+    updateBudget(budget) {
+        if (!budget) return;
+
+        this.updateElement('budget-tokens', budget.used.tokens.toLocaleString());
+        this.updateElement('budget-cost', this.formatCost(budget.used.cost));
+        this.updateElement('budget-remaining-tokens',
+            budget.remainingTokens !== undefined ? budget.remainingTokens.toLocaleString() : '無制限');
+        this.updateElement('budget-remaining-cost',
+            budget.remainingCost !== undefined ? this.formatCost(budget.remainingCost) : '無制限');
+    }
+
+    formatCost(cost) {
+        return `$${cost.toFixed(4)}`;
+    }
+
     updateRoutines(routines) {
         const loadingElement = document.getElementById('routines-loading');
         const listElement = document.getElementById('routines-list');
@@ -240,6 +256,12 @@ class AireerDashboard {
                         <i class="fas fa-percentage"></i>
                         <span>成功率: ${successRate}%</span>
                     </div>
+                    ${routine.budget ? `
+                        <div class="routine-stat">
+                            <i class="fas fa-coins"></i>
+                            <span>今日: ${routine.budget.used.tokens.toLocaleString()}トークン${routine.budget.remainingTokens !== undefined ? ` (残り ${routine.budget.remainingTokens.toLocaleString()})` : ''}</span>
+                        </div>
+                    ` : ''}
                     ${routine.failures > 0 ? `
                         <div class="routine-stat failures">
                             <i class="fas fa-exclamation-triangle"></i>
@@ -1,44 +1,111 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { RoutineManager } from './routine-manager.js';
+import { Routine, RoutineStore } from './routine-store.js';
 import { ApiClient } from './api-client.js';
 import { FileManager } from './file-manager.js';
 import { RateLimitHandler } from './rate-limit-handler.js';
-import { LogManager } from './log-manager.js';
+import { LogManager, ErrorType } from './log-manager.js';
 import { AuthManager } from './auth-manager.js';
-import { ExecutionHistory, ExecutionDetail, FileOperation } from './execution-history.js';
+import { ExecutionHistory, ExecutionDetail, FileOperation, StepExecution } from './execution-history.js';
 import { GeminiClient, GeminiRequest } from './gemini-client.js';
-import { execSync } from 'child_process';
+import { createUnifiedDiff, printDiff, applyUnifiedDiff, applySearchReplace, applyLineEdit } from './diff-utils.js';
+import { printUnrestoredCommands, SnapshotManager } from './snapshot-manager.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { CommandPolicy } from './command-policy.js';
+import { describeWorkspace } from './workspace-scanner.js';
+import { ShutdownCoordinator } from './shutdown-coordinator.js';
+import { IsolatedWorkspace, IsolationMode } from './workspace-isolation.js';
+import { GitIntegration } from './git-integration.js';
+import { LLMOperation, INSPECTION_TYPES, LLMResponse, PARTIAL_EDIT_TYPES, ResponseValidation, parseConditionResponse, parseLLMResponse } from './response-schema.js';
+import { BudgetManager, ExecutionBudget } from './budget-manager.js';
+import { GoalEvaluator, RoutineGoal, describeCriterion } from './goal-evaluator.js';
+import { buildRoutinePrompt } from './prompt-templates.js';
+import { InterpretedStep, StepContext, StepInterpreter } from './step-interpreter.js';
+import { VariableResolution, VariableSources, VariableValue, applyVariables, findUndeclaredReferences, resolveVariables } from './routine-variables.js';
+import { spawnSync } from 'child_process';
 import { nanoid } from 'nanoid';
+import * as path from 'path';
 
-interface AutonomousOptions {
+// Options for executing routines, shared by the autonomous loop and `aireer run`
+interface ExecutionOptions {
   apiUrl: string;
   directory: string;
-  interval: number;
   llmEndpoint: string;
-  maxExecutionsPerCycle: number;
   authManager: AuthManager;
   useGeminiDirect?: boolean;
   geminiClient?: GeminiClient;
+  maxSteps?: number;
+  dryRun?: boolean;
+  contextTokens?: number;
+  shutdownTimeout?: number;
+  isolation?: IsolationMode;
+  merge?: boolean;
+  gitCommit?: boolean;
+  gitBranch?: string;
+  lockTimeout?: number; // 他のルーチンがロックしているファイルを待つ秒数
+  variables?: VariableSources; // ルーチンの変数の値（環境変数は未指定なら process.env）
 }
 
-interface LLMResponse {
-  type: 'create' | 'change' | 'delete' | 'execute' | 'done';
-  filepath?: string;
-  file?: string;
-  command?: string;
-  directory?: string;
+interface AutonomousOptions extends ExecutionOptions {
+  interval: number;
+  maxExecutionsPerCycle: number;
 }
 
+// Result of one operation: the history record plus what is sent back to the LLM
+interface OperationResult {
+  record: FileOperation;
+  observation?: string;
+  recoverable?: boolean; // failure is reported back to the LLM instead of ending the execution
+}
+
+interface OperationContext {
+  fileManager: FileManager;
+  baseDirectory: string;
+  dryRun: boolean;
+  commandPolicy: CommandPolicy;
+  snapshots?: SnapshotManager;
+}
+
+// State shared by the LLM turns of one execution; responses and operations accumulate across steps
+interface TurnContext {
+  apiClient: ApiClient;
+  options: ExecutionOptions;
+  logManager: LogManager;
+  routineId: string;
+  budget: ExecutionBudget;
+  maxOperations: number;
+  maxTurns: number;
+  operations: OperationContext;
+  fileOperations: FileOperation[];
+  llmResponses: LLMResponse[];
+  lastPrompt: string;
+  lastRawResponse: any;
+}
+
+const DEFAULT_MAX_STEPS = 5;
+const MAX_OBSERVATION_LENGTH = 4000;
+const MAX_STORED_OUTPUT_LENGTH = 2000;
+const MAX_LISTED_FILES = 200;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_REPAIR_ATTEMPTS = 2;
+const MAX_QUOTED_RESPONSE_LENGTH = 2000;
+const MAX_STEP_OUTPUT_LENGTH = 1000;
+
 export async function startAutonomousMode(options: AutonomousOptions): Promise<void> {
   console.log(chalk.blue('🤖 Starting fully autonomous mode...'));
   console.log(chalk.gray(`API URL: ${options.apiUrl}`));
   console.log(chalk.gray(`Working directory: ${options.directory}`));
   console.log(chalk.gray(`Execution interval: ${options.interval} seconds`));
   console.log(chalk.gray(`Max executions/cycle: ${options.maxExecutionsPerCycle}`));
-  console.log(chalk.gray(`LLM mode: ${options.useGeminiDirect ? 'Gemini Direct' : 'Via API'}\n`));
+  console.log(chalk.gray(`Max steps/execution: ${options.maxSteps ?? DEFAULT_MAX_STEPS}`));
+  if (options.dryRun) {
+    console.log(chalk.yellow('🧪 Dry run: proposed operations are shown and recorded but not applied'));
+  }
+  console.log(chalk.gray(`LLM mode: ${options.useGeminiDirect ? 'Gemini Direct' : 'Via API'}`));
 
   const routineManager = new RoutineManager(options.apiUrl, options.directory, options.authManager);
+  console.log(chalk.gray(`Routines: ${routineManager.getRoutineStore().describe()}\n`));
   const apiClient = new ApiClient(options.apiUrl);
   
   // 認証トークンを設定
@@ -47,20 +114,57 @@ export async function startAutonomousMode(options: AutonomousOptions): Promise<v
     apiClient.setAuthToken(token);
   }
   
-  const fileManager = new FileManager(options.directory);
   const logManager = new LogManager(options.directory);
   const executionHistory = new ExecutionHistory(apiClient, options.directory);
+  const circuitBreaker = new CircuitBreaker(options.directory, logManager);
+  const budgetManager = new BudgetManager(options.directory);
+
+  // Refuse to start while a previous anomaly halt has not been cleared
+  const haltReason = circuitBreaker.getHaltReason();
+  if (haltReason) {
+    console.log(chalk.red(`⛔ Autonomous mode was halted by the circuit breaker: ${haltReason.reason}`));
+    console.log(chalk.gray('   Review the logs, then resume with: aireer breaker --resume'));
+    return;
+  }
+
+  const gitOptions = prepareGitCommit(options);
+  if (!gitOptions) {
+    return;
+  }
+  options = gitOptions;
 
   let isRunning = true;
   let cycleCount = 0;
   let rateLimitErrorCount = 0;
   let adaptiveInterval = options.interval;
 
-  // Handler to stop with Ctrl+C
-  process.on('SIGINT', () => {
-    console.log(chalk.yellow('\n⏹️  Stopping autonomous mode...'));
+  // Ctrl+C stops new cycles and waits for running routines before exiting; a second Ctrl+C forces exit
+  const runningExecutions = new Map<Promise<ExecutionDetail>, any>();
+  const shutdown = new ShutdownCoordinator('autonomous mode', options.shutdownTimeout).install();
+  shutdown.onStop(() => {
     isRunning = false;
-    process.exit(0);
+  });
+  shutdown.onFlush(async () => {
+    // Record routines that did not finish within the timeout so the history has no gaps
+    for (const routine of runningExecutions.values()) {
+      await executionHistory.recordExecution({
+        id: nanoid(),
+        routineId: routine.id,
+        routineName: routine.name,
+        success: false,
+        message: 'Interrupted by shutdown before the execution finished',
+        error: 'Interrupted by shutdown',
+        duration: 0,
+        executedAt: new Date().toISOString(),
+        dryRun: options.dryRun || undefined,
+        systemContext: {
+          directory: options.directory,
+          timestamp: new Date().toISOString(),
+          cycleCount
+        }
+      }, true);
+    }
+    logManager.log('info', 'shutdown', { cycleCount, interruptedExecutions: runningExecutions.size });
   });
 
   // Display initial priority settings
@@ -82,7 +186,7 @@ export async function startAutonomousMode(options: AutonomousOptions): Promise<v
         } else {
           console.log(chalk.gray('📝 No active routines available'));
         }
-        await sleep(options.interval * 1000);
+        await shutdown.sleep(options.interval * 1000);
         continue;
       }
 
@@ -91,11 +195,32 @@ export async function startAutonomousMode(options: AutonomousOptions): Promise<v
       // Update priority settings
       routineManager.updateRoutinePriorities(activeRoutines);
 
+      // Routines paused by the circuit breaker are not selected until resumed
+      const runnableRoutines = activeRoutines.filter(routine => !circuitBreaker.isRoutinePaused(routine.id));
+      if (runnableRoutines.length < activeRoutines.length) {
+        console.log(chalk.yellow(`⏸️  ${activeRoutines.length - runnableRoutines.length} routine(s) paused by the circuit breaker`));
+      }
+
+      // Routines that used up today's LLM budget wait until the next day
+      const dailyBudgetReason = budgetManager.checkDaily();
+      if (dailyBudgetReason) {
+        console.log(chalk.yellow(`💰 ${dailyBudgetReason} - no routines are executed until tomorrow`));
+        await shutdown.sleep(options.interval * 1000);
+        continue;
+      }
+      const routinesWithinBudget = runnableRoutines.filter(routine => !budgetManager.checkDaily(routine.id));
+      if (routinesWithinBudget.length < runnableRoutines.length) {
+        console.log(chalk.yellow(`💰 ${runnableRoutines.length - routinesWithinBudget.length} routine(s) used up today's budget`));
+      }
+
+      // Rate limit errors in routine executions are counted by the circuit breaker and lengthen the interval
+      let cycleRateLimited = false;
+
       // Select routines to execute in this cycle
-      const executionsThisCycle = [];
+      const executionsThisCycle: typeof routinesWithinBudget = [];
       
       for (let i = 0; i < options.maxExecutionsPerCycle; i++) {
-        const selectedRoutine = routineManager.selectRoutineToExecute(activeRoutines);
+        const selectedRoutine = routineManager.selectRoutineToExecute(routinesWithinBudget.filter(routine => !executionsThisCycle.includes(routine)));
         
         if (!selectedRoutine) {
           console.log(chalk.yellow(`⏸️  No executable routines available (${i + 1}/${options.maxExecutionsPerCycle})`));
@@ -104,19 +229,42 @@ export async function startAutonomousMode(options: AutonomousOptions): Promise<v
 
         executionsThisCycle.push(selectedRoutine);
         
-        // Temporarily mark as executed to prevent duplicate execution in the same cycle
-        routineManager.recordExecution(selectedRoutine.id, true);
+        // Mark as started so the cooldown and schedule prevent duplicate execution in the same cycle
+        routineManager.markSelected(selectedRoutine.id);
       }
 
       // Execute selected routines in parallel
       if (executionsThisCycle.length > 0) {
         console.log(chalk.green(`🚀 Executing ${executionsThisCycle.length} routines...`));
         
-        const executionPromises = executionsThisCycle.map(routine => 
-          executeRoutine(routine, apiClient, fileManager, options, routineManager, logManager, executionHistory, cycleCount)
-        );
+        const executionPromises = executionsThisCycle.map(routine => {
+          const execution = executeRoutine(routine, apiClient, options, routineManager, logManager, executionHistory, budgetManager, cycleCount);
+          runningExecutions.set(execution, routine);
+          execution.finally(() => runningExecutions.delete(execution)).catch(() => undefined);
+          return shutdown.track(execution);
+        });
 
-        await Promise.allSettled(executionPromises);
+        const results = await Promise.allSettled(executionPromises);
+
+        // Check for anomalies and trip circuit breakers
+        for (const result of results) {
+          if (result.status !== 'fulfilled') {
+            continue;
+          }
+          if (result.value.errorType === 'RATE_LIMIT_ERROR') {
+            cycleRateLimited = true;
+          }
+          const decision = circuitBreaker.recordExecution(result.value);
+          if (decision.action === 'pause-routine') {
+            console.log(chalk.yellow(`⏸️  Routine "${result.value.routineName}" paused: ${decision.reason}`));
+            console.log(chalk.gray(`   Resume with: aireer breaker --resume ${decision.routineId}`));
+          } else if (decision.action === 'halt') {
+            console.log(chalk.red(`⛔ Stopping autonomous mode: ${decision.reason}`));
+            console.log(chalk.gray('   Resume with: aireer breaker --resume'));
+            isRunning = false;
+            break;
+          }
+        }
       } else {
         console.log(chalk.yellow('😴 No routines to execute in this cycle'));
       }
@@ -126,28 +274,36 @@ export async function startAutonomousMode(options: AutonomousOptions): Promise<v
         await routineManager.getRoutinePriorityInfo();
       }
 
-      // Reset rate limit error count (successful cycle)
-      rateLimitErrorCount = 0;
-      adaptiveInterval = options.interval;
+      if (cycleRateLimited) {
+        rateLimitErrorCount++;
+        adaptiveInterval = RateLimitHandler.suggestOptimalInterval(rateLimitErrorCount, adaptiveInterval);
+      } else {
+        // Reset rate limit error count (successful cycle)
+        rateLimitErrorCount = 0;
+        adaptiveInterval = options.interval;
+      }
 
       // Wait until next cycle
       if (isRunning) {
         console.log(chalk.gray(`⏳ Waiting ${adaptiveInterval} seconds...`));
-        await sleep(adaptiveInterval * 1000);
+        await shutdown.sleep(adaptiveInterval * 1000);
       }
 
     } catch (error: any) {
       // Special handling for rate limit errors
-      const isRateLimit = error.response?.data?.error === 'RATE_LIMIT_EXCEEDED' || 
-                         error.status === 429 || 
-                         error.message?.includes('rate limit');
-      
       let errorType: any = 'UNKNOWN_ERROR';
-      if (isRateLimit) {
+      if (RateLimitHandler.isRateLimitError(error)) {
         errorType = 'RATE_LIMIT_ERROR';
         rateLimitErrorCount++;
         RateLimitHandler.displayRateLimitInfo(error);
         adaptiveInterval = RateLimitHandler.suggestOptimalInterval(rateLimitErrorCount, adaptiveInterval);
+
+        const decision = circuitBreaker.recordRateLimitError();
+        if (decision.action === 'halt') {
+          console.log(chalk.red(`⛔ Stopping autonomous mode: ${decision.reason}`));
+          console.log(chalk.gray('   Resume with: aireer breaker --resume'));
+          isRunning = false;
+        }
       } else if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT') {
         errorType = 'NETWORK_ERROR';
       } else if (error.message?.includes('routines') || error.message?.includes('API')) {
@@ -171,10 +327,153 @@ export async function startAutonomousMode(options: AutonomousOptions): Promise<v
       
       if (isRunning) {
         console.log(chalk.gray(`⏳ Waiting ${adaptiveInterval} seconds before retry...`));
-        await sleep(adaptiveInterval * 1000);
+        await shutdown.sleep(adaptiveInterval * 1000);
+      }
+    }
+  }
+}
+
+/**
+ * 1つのルーチンを選択なしで1回だけ実行する（CI・make・git フックからの呼び出し用）
+ * ルーチンが見つからない・実行を開始できない場合は null を返す
+ */
+export async function runRoutine(routineRef: string, options: ExecutionOptions): Promise<ExecutionDetail | null> {
+  const apiClient = new ApiClient(options.apiUrl);
+  const token = options.authManager.getConfigManager().getToken();
+  if (token) {
+    apiClient.setAuthToken(token);
+  }
+
+  const routineManager = new RoutineManager(options.apiUrl, options.directory, options.authManager);
+  const routine = await findRoutine(routineManager.getRoutineStore(), routineRef);
+  if (!routine) {
+    return null;
+  }
+
+  // Report every missing or invalid variable at once, before anything is executed
+  const resolution = resolveRoutineVariables(routine, options);
+  resolution.unknown.forEach(name => console.log(chalk.yellow(`⚠️  Variable "${name}" is not declared by routine "${routine.name}" and is ignored`)));
+  findUndeclaredReferences(routine, routine.variables)
+    .forEach(name => console.log(chalk.yellow(`⚠️  {{${name}}} is used in the steps of "${routine.name}" but not declared in its variables`)));
+  if (resolution.missing.length > 0 || resolution.errors.length > 0) {
+    console.log(chalk.red(`❌ ${describeVariableProblems(resolution)}`));
+    resolution.missing.forEach(name => {
+      const description = routine.variables?.[name]?.description;
+      console.log(chalk.gray(`   ${name} (${routine.variables![name].type})${description ? ` - ${description}` : ''}`));
+    });
+    if (resolution.missing.length > 0) {
+      console.log(chalk.gray(`   Set them with --var name=value, --vars-file <file> or AIREER_VAR_<NAME>`));
+    }
+    return null;
+  }
+
+  const gitOptions = prepareGitCommit(options);
+  if (!gitOptions) {
+    return null;
+  }
+  options = gitOptions;
+
+  const logManager = new LogManager(options.directory);
+  const executionHistory = new ExecutionHistory(apiClient, options.directory);
+  const budgetManager = new BudgetManager(options.directory);
+
+  if (!routine.isActive) {
+    console.log(chalk.gray(`Routine "${routine.name}" is inactive; running it because it was requested explicitly`));
+  }
+  if (routineManager.isGoalMet(routine.id)) {
+    console.log(chalk.yellow(`🎯 The goal of "${routine.name}" is already met; running it anyway`));
+  }
+  if (options.dryRun) {
+    console.log(chalk.yellow('🧪 Dry run: proposed operations are shown and recorded but not applied'));
+  }
+
+  // Ctrl+C waits for the execution to finish and exits with 130 so that callers see the interruption
+  let finished = false;
+  const shutdown = new ShutdownCoordinator('routine run', options.shutdownTimeout, 130).install();
+  shutdown.onFlush(async () => {
+    if (finished) {
+      return;
+    }
+    await executionHistory.recordExecution({
+      id: nanoid(),
+      routineId: routine.id,
+      routineName: routine.name,
+      success: false,
+      message: 'Interrupted by shutdown before the execution finished',
+      error: 'Interrupted by shutdown',
+      duration: 0,
+      executedAt: new Date().toISOString(),
+      dryRun: options.dryRun || undefined,
+      systemContext: {
+        directory: options.directory,
+        timestamp: new Date().toISOString(),
+        cycleCount: 0
+      }
+    }, true);
+  });
+
+  const detail = await shutdown.track(executeRoutine(routine, apiClient, options, routineManager, logManager, executionHistory, budgetManager, 0));
+  finished = true;
+  return detail;
+}
+
+/**
+ * ID、またはルーチン名（完全一致、なければ大文字小文字を区別せずに一致）でルーチンを取得する
+ */
+async function findRoutine(routineStore: RoutineStore, routineRef: string): Promise<Routine | null> {
+  try {
+    const routine = await routineStore.getRoutine(routineRef);
+    if (routine) {
+      return routine;
+    }
+  } catch (error) {
+    // Not an ID: fall back to matching by name
+  }
+
+  let routines: Routine[] = [];
+  try {
+    routines = await routineStore.listRoutines();
+  } catch (error: any) {
+    console.log(chalk.red(`❌ Failed to fetch routines: ${error.message}`));
+    return null;
+  }
+
+  let matches = routines.filter(routine => routine.name === routineRef);
+  if (matches.length === 0) {
+    matches = routines.filter(routine => routine.name?.toLowerCase() === routineRef.toLowerCase());
+  }
+  if (matches.length > 1) {
+    console.log(chalk.red(`❌ ${matches.length} routines are named "${routineRef}". Specify the routine ID instead:`));
+    matches.forEach(routine => console.log(chalk.gray(`   ${routine.id}  ${routine.name}`)));
+    return null;
+  }
+  if (matches.length === 0) {
+    console.log(chalk.red(`❌ Routine not found: ${routineRef}`));
+    return null;
+  }
+  return matches[0];
+}
+
+/**
+ * 作業ディレクトリが git リポジトリなら、成功した実行をコミットするよう設定する
+ * 指定されたブランチに切り替えられない場合は null を返す
+ */
+function prepareGitCommit<T extends ExecutionOptions>(options: T): T | null {
+  // Auto-commit is opt-in (--git-commit, or --git-branch to commit to a dedicated branch)
+  const gitEnabled = (options.gitCommit === true || !!options.gitBranch) && !options.dryRun && GitIntegration.isRepository(options.directory);
+  if (gitEnabled) {
+    const gitIntegration = new GitIntegration(options.directory);
+    if (options.gitBranch) {
+      try {
+        gitIntegration.checkoutBranch(options.gitBranch);
+      } catch (error: any) {
+        console.log(chalk.red(`❌ Could not switch to branch ${options.gitBranch}: ${error.message}`));
+        return null;
       }
     }
+    console.log(chalk.gray(`📌 Each successful execution is committed to branch ${gitIntegration.getCurrentBranch()}`));
   }
+  return { ...options, gitCommit: gitEnabled };
 }
 
 async function updateRoutinePriorities(routineManager: RoutineManager): Promise<void> {
@@ -199,91 +498,203 @@ async function updateRoutinePriorities(routineManager: RoutineManager): Promise<
 async function executeRoutine(
   routine: any,
   apiClient: ApiClient,
-  fileManager: FileManager,
-  options: AutonomousOptions,
+  options: ExecutionOptions,
   routineManager: RoutineManager,
   logManager: LogManager,
   executionHistory: ExecutionHistory,
+  budgetManager: BudgetManager,
   cycleCount: number
-): Promise<void> {
+): Promise<ExecutionDetail> {
   const startTime = Date.now();
+  const executionId = nanoid();
   let success = false;
   let executedPrompt = '';
   let llmResponseData: any = null;
-  let fileOperations: FileOperation[] = [];
+  let lastRawResponse: any = null;
+  const llmResponses: LLMResponse[] = [];
+  const fileOperations: FileOperation[] = [];
+  let stepInterpreter: StepInterpreter | undefined;
   let errorMessage = '';
+  let rolledBack = false;
+  let errorType: ErrorType | undefined;
+  let workspace: IsolatedWorkspace | undefined;
+  let workspaceResult: ExecutionDetail['workspace'];
+  let snapshots: SnapshotManager | undefined;
+  let commitHash: string | undefined;
+  let gitIntegration: GitIntegration | undefined;
+  let changedBeforeExecution: Set<string> | undefined;
+  let workFileManager: FileManager | undefined;
+  // Loaded per execution so policy file edits apply from the next execution
+  const commandPolicy = new CommandPolicy(options.directory, logManager);
+  const budget = budgetManager.forExecution(routine.id);
+  let variables: Record<string, VariableValue> | undefined;
 
   try {
     console.log(chalk.blue(`\n🔧 Starting routine execution: ${routine.name}`));
+
+    // Variables are resolved before any LLM call; {{name}} in the steps is replaced with the values
+    if (routine.variables && Object.keys(routine.variables).length > 0) {
+      const resolution = resolveRoutineVariables(routine, options);
+      if (resolution.missing.length > 0 || resolution.errors.length > 0) {
+        const error: any = new Error(describeVariableProblems(resolution));
+        error.code = 'INVALID_VARIABLES';
+        throw error;
+      }
+      variables = resolution.values;
+      routine = applyVariables(routine, variables);
+      console.log(chalk.gray(`Variables: ${Object.entries(variables).map(([name, value]) => `${name}=${value}`).join(', ')}`));
+    }
     console.log(chalk.gray(`Description: ${routine.description}`));
 
-    // Build routine content as prompt
-    const prompt = await buildRoutinePrompt(routine, executionHistory);
-    
-    // Get current directory state
-    const currentState = await getDirectoryState(options.directory);
-    const fullPrompt = `${prompt}\n\nCurrent directory state:\n${currentState}`;
-    executedPrompt = fullPrompt;
+    // Isolated routines work in their own directory so parallel routines cannot overwrite each other
+    const isolation = options.isolation ?? 'none';
+    if (isolation !== 'none' && !options.dryRun) {
+      workspace = IsolatedWorkspace.create(options.directory, isolation, executionId, routine);
+      workspaceResult = { mode: workspace.getMode(), path: path.relative(options.directory, workspace.getPath()) };
+      console.log(chalk.gray(`📁 Isolated workspace (${workspace.getMode()}): ${workspaceResult.path}`));
+    }
+    const workDirectory = workspace ? workspace.getPath() : options.directory;
+    // Files written by this execution stay locked until it is committed or rolled back,
+    // so a parallel routine cannot overwrite them in between
+    workFileManager = new FileManager(workDirectory, {
+      lockOwner: executionId,
+      lockLabel: routine.name,
+      lockTimeoutMs: options.lockTimeout !== undefined ? options.lockTimeout * 1000 : undefined
+    });
 
-    console.log(chalk.cyan('📤 Sending request to LLM API...'));
+    // Changes already in the working tree are not attributed to this execution
+    if (options.gitCommit) {
+      gitIntegration = new GitIntegration(options.directory);
+      changedBeforeExecution = new Set(gitIntegration.getChangedPaths());
+    }
 
-    // Call LLM API (Gemini direct or via API)
-    let llmResult: { content: string | null; rawResponse: any };
-    
-    if (options.useGeminiDirect && options.geminiClient) {
-      // Direct request to Gemini API
-      const geminiResult = await RateLimitHandler.executeWithRetry(
-        () => options.geminiClient!.generateContent({ prompt: fullPrompt }),
-        { maxRetries: 2, baseDelay: 2000 }
-      );
-      llmResult = {
-        content: geminiResult.content,
-        rawResponse: geminiResult.rawResponse
-      };
-    } else {
-      // Request via API
-      llmResult = await RateLimitHandler.executeWithRetry(
-        () => getLLMResponseFromAPI(apiClient, fullPrompt, options.llmEndpoint),
-        { maxRetries: 2, baseDelay: 2000 }
-      );
+    // Snapshot every file touched by this execution so that a failure can be undone as a whole.
+    // Copies and worktrees are discarded on failure instead, and snapshotted when merged.
+    if (!options.dryRun && !workspace?.needsMerge()) {
+      snapshots = new SnapshotManager(workDirectory, executionId, options.directory);
     }
-    
-    if (!llmResult?.content) {
-      throw new Error('No response received from LLM API');
+
+    // Build routine content as prompt from the routine, project, global or built-in template
+    const maxOperations = routineManager.getMaxOperationsPerResponse(routine.id);
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+    const goal = routineManager.getGoal(routine.id);
+    const { prompt: fullPrompt, template } = await buildRoutinePrompt(routine, {
+      directory: options.directory,
+      executionHistory,
+      maxOperations,
+      maxSteps,
+      // Current directory state (ignored files excluded, recently changed first)
+      directoryState: describeWorkspace(workFileManager, workDirectory, { tokenBudget: options.contextTokens }),
+      goal,
+      goalProgress: routineManager.getGoalProgress(routine.id)
+    });
+    if (template.source !== 'builtin') {
+      console.log(chalk.gray(`📝 Prompt template: ${template.path}`));
     }
 
-    // Parse and execute JSON response
-    const responseJson = parseJSONResponse(llmResult.content);
-    llmResponseData = responseJson;
-    
-    if (responseJson) {
-              await executeFileOperation(responseJson, fileManager, options.directory);
-        // Record file operations
-        fileOperations.push({
-          type: responseJson.type,
-          filepath: responseJson.filepath,
-          command: responseJson.command,
-          success: true
+    const turnContext: TurnContext = {
+      apiClient,
+      options,
+      logManager,
+      routineId: routine.id,
+      budget,
+      maxOperations,
+      maxTurns: maxSteps,
+      operations: {
+        fileManager: workFileManager,
+        baseDirectory: workDirectory,
+        dryRun: options.dryRun === true,
+        commandPolicy,
+        snapshots
+      },
+      fileOperations,
+      llmResponses,
+      lastPrompt: '',
+      lastRawResponse: null
+    };
+
+    let completed: boolean;
+    const steps: InterpretedStep[] = [...(routine.steps ?? [])].sort((a: any, b: any) => (a.order ?? 0) - (b.order ?? 0));
+    try {
+      if (steps.length === 0) {
+        // Without steps the whole routine is one observe/act conversation
+        const outcome = await runTurns(fullPrompt, turnContext, buildContinuationInstruction);
+        completed = outcome.completed;
+        if (!completed) {
+          console.log(chalk.yellow(`⚠️  Step budget exhausted (${maxSteps} steps) before the routine returned done`));
+        }
+      } else {
+        // Each step runs as its own LLM conversation; conditions and loops decide which steps run
+        stepInterpreter = new StepInterpreter(steps, {
+          runAction: (step, context) => runActionStep(fullPrompt, step, context, turnContext),
+          evaluateCondition: (step, condition, context) => evaluateStepCondition(fullPrompt, step, condition, context, turnContext)
         });
-      success = true;
-      console.log(chalk.green(`✅ Routine "${routine.name}" execution completed`));
-      
-      // Record success log (including API response)
-      logManager.logSuccess(`routine-${routine.id}`, {
-        routineName: routine.name,
-        responseType: responseJson.type,
-        duration: Date.now() - startTime,
-        llmResponse: responseJson
-      }, llmResult.rawResponse);
-    } else {
-      throw new Error('No valid JSON response received');
+        const results = await stepInterpreter.run();
+        completed = !results.some(result => result.status === 'incomplete');
+      }
+    } finally {
+      executedPrompt = turnContext.lastPrompt;
+      llmResponseData = llmResponses.length > 0 ? llmResponses : null;
+      lastRawResponse = turnContext.lastRawResponse;
     }
 
+    if (workspace?.needsMerge()) {
+      if (options.merge === false) {
+        console.log(chalk.gray(`📁 Workspace kept without merging. Merge it with: aireer workspace merge ${executionId} -d ${options.directory}`));
+      } else {
+        // The merge is snapshotted so it can be undone with `aireer rollback`
+        snapshots = new SnapshotManager(options.directory, executionId);
+        const { merged, conflicts } = workspace.merge(snapshots);
+        workspaceResult = { ...workspaceResult!, merged, conflicts };
+        console.log(chalk.green(`🔀 Merged ${merged.length} file(s) into the working directory`));
+
+        if (conflicts.length > 0) {
+          // A partial merge is rolled back; the kept workspace can be merged again after resolving the conflicts
+          console.log(chalk.red(`⚠️  ${conflicts.length} file(s) were also changed in the working directory and could not be merged:`));
+          conflicts.forEach(filepath => console.log(chalk.gray(`   ${filepath}`)));
+          console.log(chalk.gray(`   The workspace is kept at ${workspaceResult.path}. Resolve the conflicts, then run: aireer workspace merge ${executionId} -d ${options.directory}`));
+          logManager.log('warning', `routine-${routine.id}`, { executionId, mergeConflicts: conflicts, workspace: workspaceResult.path });
+          const error: any = new Error(`Workspace merge conflicts in ${conflicts.length} file(s): ${conflicts.join(', ')}`);
+          error.code = 'MERGE_CONFLICT';
+          throw error;
+        }
+        workspace.discard();
+      }
+    }
+
+    success = true;
+    console.log(chalk.green(`✅ Routine "${routine.name}" execution completed`));
+
+    // Check the routine's goal against the working directory after its changes are in place
+    if (goal && !options.dryRun) {
+      await checkGoal(routine, goal, apiClient, options, routineManager, commandPolicy, logManager, budget);
+    }
+    
+    // Record success log (including API response)
+    logManager.logSuccess(`routine-${routine.id}`, {
+      routineName: routine.name,
+      responseTypes: fileOperations.map(op => op.type),
+      steps: llmResponses.length,
+      completed,
+      duration: Date.now() - startTime,
+      llmResponse: llmResponses
+    }, lastRawResponse);
+
   } catch (error: any) {
     // Determine error type
-    let errorType: any = 'ROUTINE_EXECUTION_ERROR';
+    errorType = 'ROUTINE_EXECUTION_ERROR';
     
-    if (error.response?.data?.error === 'RATE_LIMIT_EXCEEDED' || error.status === 429) {
+    if (error.code === 'LLM_RESPONSE_INVALID') {
+      errorType = 'LLM_RESPONSE_VALIDATION_ERROR';
+    } else if (error.code === 'BUDGET_EXCEEDED') {
+      errorType = 'BUDGET_EXCEEDED';
+    } else if (error.code === 'FILE_LOCKED') {
+      errorType = 'FILE_LOCK_CONFLICT';
+    } else if (error.code === 'MERGE_CONFLICT') {
+      errorType = 'MERGE_CONFLICT';
+    } else if (error.code === 'INVALID_VARIABLES') {
+      errorType = 'VALIDATION_ERROR';
+    } else if (RateLimitHandler.isRateLimitError(error)) {
       errorType = 'RATE_LIMIT_ERROR';
     } else if (error.message?.includes('LLM API') || error.message?.includes('generate')) {
       errorType = 'LLM_API_ERROR';
@@ -311,107 +722,450 @@ async function executeRoutine(
     );
 
     success = false;
+
+    // Restore every file changed by this execution
+    if (snapshots?.hasEntries()) {
+      try {
+        const { restored } = snapshots.restore();
+        snapshots.discard();
+        rolledBack = true;
+        console.log(chalk.yellow(`↩️  Rolled back ${restored.length} file(s) changed by this execution`));
+      } catch (rollbackError: any) {
+        console.log(chalk.red(`❌ Rollback failed: ${rollbackError.message}`));
+      }
+    }
+    // Commands that ran in a discarded copy or worktree changed nothing in the working directory
+    if (snapshots && !workspace?.needsMerge()) {
+      printUnrestoredCommands(snapshots.getCommands());
+    }
+
+    // Changes made in a failed copy or worktree are never merged (a conflicting one is kept for `aireer workspace merge`)
+    if (workspace?.needsMerge() && error.code !== 'MERGE_CONFLICT') {
+      workspace.discard();
+    }
   } finally {
+    // Keep snapshots of successful executions for `aireer rollback`
+    if (success && snapshots?.hasEntries()) {
+      snapshots.complete();
+      SnapshotManager.prune(options.directory);
+      console.log(chalk.gray(`↩️  Undo this execution with: aireer rollback ${executionId} -d ${options.directory}`));
+    }
+
+    // Commit only the files changed by file operations so the execution can be reviewed or reverted with git
+    if (success && gitIntegration) {
+      const manifest = snapshots?.hasEntries() ? snapshots.getManifest() : undefined;
+      try {
+        commitHash = gitIntegration.commitExecution({
+          executionId,
+          routineId: routine.id,
+          routineName: routine.name,
+          fileOperations,
+          paths: manifest ? manifest.entries.map(entry => path.join(manifest.baseDirectory, entry.filepath)) : []
+        }) ?? undefined;
+        if (commitHash) {
+          console.log(chalk.gray(`📌 Committed as ${commitHash.substring(0, 8)} (revert with: aireer undo ${executionId})`));
+        }
+
+        // Files changed by execute commands (or other routines) are not in the commit, so `aireer undo` cannot revert them
+        const uncommitted = gitIntegration.getChangedPaths().filter(filepath => !changedBeforeExecution?.has(filepath));
+        if (uncommitted.length > 0) {
+          console.log(chalk.yellow(`⚠️  ${uncommitted.length} file(s) changed during this execution outside its file operations (e.g. by commands) were not committed and are not reverted by aireer undo:`));
+          uncommitted.slice(0, 10).forEach(filepath => console.log(chalk.gray(`   ${filepath}`)));
+          logManager.log('warning', `routine-${routine.id}`, { executionId, uncommittedChanges: uncommitted });
+        }
+      } catch (error: any) {
+        console.log(chalk.yellow(`⚠️  Git commit skipped: ${error.message}`));
+      }
+    }
+
+    // Other routines may write these files again once this execution is settled
+    workFileManager?.releaseLocks();
+
     // Record execution result
     const duration = Date.now() - startTime;
     routineManager.recordExecution(routine.id, success);
 
     // Record detailed execution history
     const executionDetail: ExecutionDetail = {
-      id: nanoid(),
+      id: executionId,
       routineId: routine.id,
       routineName: routine.name,
       success,
-      message: success ? 'Executed successfully' : errorMessage || 'Error occurred during execution',
+      message: success
+        ? (options.dryRun ? 'Dry run completed (no changes applied)' : 'Executed successfully')
+        : errorMessage || 'Error occurred during execution',
       error: success ? undefined : errorMessage,
+      errorType,
       duration,
       executedAt: new Date().toISOString(),
       llmPrompt: executedPrompt,
       llmResponse: llmResponseData,
       fileOperations: fileOperations,
+      dryRun: options.dryRun || undefined,
+      rolledBack: rolledBack || undefined,
+      workspace: workspaceResult,
+      commitHash,
+      llmUsage: budget.getUsed(),
+      stepResults: stepInterpreter?.getResults(),
       systemContext: {
         directory: options.directory,
         timestamp: new Date().toISOString(),
-        cycleCount: cycleCount
+        cycleCount: cycleCount,
+        variables
       }
     };
 
     // Record detailed history using ExecutionHistory class
     await executionHistory.recordExecution(executionDetail);
+
+    return executionDetail;
   }
 }
 
-async function buildRoutinePrompt(routine: any, executionHistory: ExecutionHistory): Promise<string> {
-  let prompt = `Routine: ${routine.name}\nDescription: ${routine.description}\n\n`;
-  
-  if (routine.steps && routine.steps.length > 0) {
-    prompt += 'Steps:\n';
-    routine.steps.forEach((step: any, index: number) => {
-      prompt += `${index + 1}. ${step.content}`;
-      if (step.parameters) {
-        try {
-          const params = typeof step.parameters === 'string' ? 
-            JSON.parse(step.parameters) : step.parameters;
-          prompt += ` (Parameters: ${JSON.stringify(params)})`;
-        } catch (e) {
-          // Ignore parameter parsing errors
-        }
-      }
-      prompt += '\n';
+/**
+ * ゴールの達成状況を判定・記録し、達成時は設定に応じてルーチンを非アクティブにする
+ */
+async function checkGoal(
+  routine: any,
+  goal: RoutineGoal,
+  apiClient: ApiClient,
+  options: ExecutionOptions,
+  routineManager: RoutineManager,
+  commandPolicy: CommandPolicy,
+  logManager: LogManager,
+  budget: ExecutionBudget
+): Promise<void> {
+  try {
+    const evaluator = new GoalEvaluator(options.directory, commandPolicy, async prompt => {
+      return (await requestLLM(prompt, apiClient, options, budget)).content;
     });
+    const progress = await evaluator.evaluate(goal);
+    routineManager.recordGoalProgress(routine.id, progress);
+
+    const metCount = progress.results.filter(result => result.met).length;
+    if (!progress.met) {
+      console.log(chalk.gray(`🏁 Goal progress: ${metCount}/${goal.criteria.length} criteria met`));
+      return;
+    }
+
+    console.log(chalk.green(`🏁 Goal of routine "${routine.name}" met - it will not be selected again`));
+    logManager.log('info', `routine-${routine.id}`, { goalMet: true, criteria: goal.criteria.map(describeCriterion) });
+    if (goal.deactivateOnComplete && await routineManager.deactivateRoutine(routine.id)) {
+      console.log(chalk.gray(`   Routine "${routine.name}" was marked inactive in ${routineManager.getRoutineStore().describe()}`));
+    }
+  } catch (error: any) {
+    console.log(chalk.yellow(`⚠️  Goal check failed: ${error.message}`));
   }
+}
 
-  // Add previous execution history (to avoid duplication)
-  const previousExecutionsSummary = await executionHistory.getPreviousExecutionsSummary(routine.id, 3);
-  prompt += `\n${previousExecutionsSummary}\n`;
+function resolveRoutineVariables(routine: Routine, options: ExecutionOptions): VariableResolution {
+  return resolveVariables(routine.variables, { env: process.env, ...options.variables });
+}
 
-  // Get recent file operations list
-  const recentOperations = await executionHistory.getRecentFileOperations(routine.id, 24);
-  if (recentOperations.length > 0) {
-    prompt += `【Operations executed within the last 24 hours (avoid duplication)】\n`;
-    recentOperations.forEach(op => {
-      prompt += `- ${op}\n`;
-    });
-    prompt += `Please avoid the same files/commands as above operations and take a new approach.\n\n`;
+function describeVariableProblems(resolution: VariableResolution): string {
+  const problems = [...resolution.errors];
+  if (resolution.missing.length > 0) {
+    problems.unshift(`Missing required variable(s): ${resolution.missing.join(', ')}`);
   }
+  return problems.join('; ');
+}
+
+/**
+ * 観察・行動ループ: 各ターンの操作結果を次のターンで LLM に返す（done が返るか maxTurns に達するまで）
+ */
+async function runTurns(
+  prompt: string,
+  context: TurnContext,
+  continuation: (turn: number, maxTurns: number) => string
+): Promise<{ completed: boolean; turns: number; summary?: string; lastResults: string[] }> {
+  const transcript: string[] = [];
+  let completed = false;
+  let unresolvedFailures: FileOperation[] = [];
+  let summary: string | undefined;
+  let lastResults: string[] = [];
+  let turn = 0;
 
-  prompt += `Please return the execution content in the following JSON format. No messages needed, return only JSON:
-{"type": "create|change|delete|execute|done", "filepath": "<file path>", "file": "<file content>", "command": "<command>"}
+  while (turn < context.maxTurns && !completed) {
+    turn++;
+    const turnPrompt = transcript.length === 0
+      ? prompt
+      : `${prompt}\n\n${transcript.join('\n\n')}\n\n${continuation(turn, context.maxTurns)}`;
+    context.lastPrompt = turnPrompt;
 
-- To create a file: type="create"
-- To modify a file: type="change"  
-- To delete a file: type="delete"
-- To execute a command: type="execute"
-- To do nothing: type="done"
+    console.log(chalk.cyan(`📤 Sending request to LLM API (turn ${turn}/${context.maxTurns})...`));
+    const validResponse = await requestValidResponse(turnPrompt, context.apiClient, context.options, context.maxOperations, context.logManager, context.routineId, context.budget);
+    context.lastRawResponse = validResponse.rawResponse;
+    const responseJson = validResponse.response;
+    const operations = validResponse.operations;
+    context.llmResponses.push(responseJson);
 
-【Important Instructions】
-1. Avoid exactly the same operations as previous execution history
-2. Do not recreate files that have already been created  
-3. Do not repeatedly execute the same commands
-4. Proceed with tasks from new perspectives or different approaches
-5. Check if existing files exist and select change if necessary`;
+    // Apply operations in order; each one is recorded separately
+    const results = await executeFileOperations(operations, context.operations);
+    context.fileOperations.push(...results.map(result => result.record));
 
-  return prompt;
+    // A failed command is shown to the LLM so it can fix the cause in the next turn
+    const failed = results.find(result => !result.record.success);
+    if (failed && !failed.recoverable) {
+      const error: any = new Error(`Failed to apply file operation ${failed.record.type} (${failed.record.filepath || failed.record.command || 'N/A'}): ${failed.record.error}`);
+      if (failed.record.lockedBy) {
+        error.code = 'FILE_LOCKED';
+      }
+      throw error;
+    }
+    unresolvedFailures = unresolvedFailures.filter(failure => !results.some(result => resolvesFailure(result.record, failure)));
+    if (failed) {
+      unresolvedFailures.push(failed.record);
+    }
+
+    completed = !failed && operations.some(op => op.type === 'done');
+    summary = operations.find(op => op.type === 'done')?.summary ?? summary;
+    lastResults = results.map(describeResult);
+    transcript.push(formatTurn(turn, responseJson, results, operations.length));
+  }
+
+  const unresolvedFailure = unresolvedFailures[0];
+  if (unresolvedFailure?.type === 'execute') {
+    throw new Error(`Command failed and was not resolved by a later successful run of the same command (${unresolvedFailure.command}): ${unresolvedFailure.error}`);
+  }
+  if (unresolvedFailure) {
+    throw new Error(`${unresolvedFailure.type} of ${unresolvedFailure.filepath} was rejected and not applied by a later operation: ${unresolvedFailure.error}`);
+  }
+
+  return { completed, turns: turn, summary, lastResults };
 }
 
-async function getDirectoryState(directory: string): Promise<string> {
-  try {
-    const result = execSync(`tree -I "node_modules|*.log|dist|.git" -L 2 "${directory}"`, { 
-      encoding: 'utf-8',
-      cwd: directory 
+/**
+ * action ステップを実行する（done の summary、なければ最後のターンの結果を後続のステップに渡す）
+ */
+async function runActionStep(
+  routinePrompt: string,
+  step: InterpretedStep,
+  context: StepContext,
+  turnContext: TurnContext
+): Promise<{ completed: boolean; output: string; turns: number }> {
+  const prompt = `${routinePrompt}\n\n${buildStepSection(step, context)}
+Carry out only this step with operations in the JSON format above. When this step is complete, return type="done" with a "summary" of its outcome (one or two sentences); the summary is passed to the following steps.`;
+
+  const outcome = await runTurns(prompt, turnContext, (turn, maxTurns) => {
+    const remaining = maxTurns - turn + 1;
+    return `This is turn ${turn} of ${maxTurns} for step ${context.step} (${remaining} remaining). Based on the results above, return the next operations in the same JSON format. Return type="done" with a "summary" when this step is complete.`;
+  });
+  if (!outcome.completed) {
+    console.log(chalk.yellow(`⚠️  Turn budget exhausted (${turnContext.maxTurns} turns) before step ${context.step} returned done`));
+  }
+
+  return { completed: outcome.completed, output: outcome.summary ?? outcome.lastResults.join('; '), turns: outcome.turns };
+}
+
+/**
+ * condition / loop ステップの条件を判定する（判定前に読み取り系の操作でワークスペースを調べられる）
+ */
+async function evaluateStepCondition(
+  routinePrompt: string,
+  step: InterpretedStep,
+  condition: string,
+  context: StepContext,
+  turnContext: TurnContext
+): Promise<{ result: boolean; reason: string; turns: number }> {
+  const question = step.type === 'loop'
+    ? `Decide whether this loop is finished, i.e. whether the following holds now: ${condition}\nReturn true to stop repeating, false to run the loop again.`
+    : `Decide whether this condition holds now: ${condition}`;
+  const prompt = `${routinePrompt}\n\n${buildStepSection(step, context)}
+${question}
+Do not change any files in this step. If you need to inspect the workspace first, return {"operations": [...]} with ${INSPECTION_TYPES.join(', ')} operations and their results are sent back to you. Commands cannot be executed while evaluating a condition.
+When you can decide, return only {"result": true or false, "reason": "<one sentence>"}.`;
+
+  const transcript: string[] = [];
+  for (let turn = 1; turn <= turnContext.maxTurns; turn++) {
+    const turnPrompt = transcript.length === 0
+      ? prompt
+      : `${prompt}\n\n${transcript.join('\n\n')}\n\n${turn === turnContext.maxTurns
+        ? 'This is the last turn for this step. Return only {"result": true or false, "reason": "..."} now.'
+        : `This is turn ${turn} of ${turnContext.maxTurns} for step ${context.step}. Inspect further or return {"result": true or false, "reason": "..."}.`}`;
+    turnContext.lastPrompt = turnPrompt;
+
+    console.log(chalk.cyan(`📤 Sending request to LLM API (turn ${turn}/${turnContext.maxTurns})...`));
+    const validResponse = await requestValidResponse(turnPrompt, turnContext.apiClient, turnContext.options, turnContext.maxOperations, turnContext.logManager, turnContext.routineId, turnContext.budget, parseConditionResponse);
+    turnContext.lastRawResponse = validResponse.rawResponse;
+    turnContext.llmResponses.push(validResponse.response);
+
+    if (typeof validResponse.response.result === 'boolean') {
+      return { result: validResponse.response.result, reason: validResponse.response.reason ?? '', turns: turn };
+    }
+
+    // Failed inspections (e.g. a missing file) are part of the answer, not an error
+    const results = await executeFileOperations(validResponse.operations, turnContext.operations);
+    turnContext.fileOperations.push(...results.map(result => result.record));
+    transcript.push(formatTurn(turn, validResponse.response, results, validResponse.operations.length));
+  }
+
+  throw new Error(`The condition of step ${context.step} was not decided within ${turnContext.maxTurns} turns`);
+}
+
+/**
+ * 実行中のステップとこれまでのステップの結果をプロンプトの末尾に加える部分
+ */
+function buildStepSection(step: InterpretedStep, context: StepContext): string {
+  const iteration = context.iteration ? `, iteration ${context.iteration}` : '';
+  let section = '【Step-by-step execution】\nThe steps above are executed one at a time.\n';
+
+  const previous = context.previous.filter(result => result.status !== 'skipped');
+  if (previous.length > 0) {
+    section += 'Results of the previous steps:\n';
+    previous.forEach(result => {
+      const label = `Step ${result.step}${result.iteration ? ` (iteration ${result.iteration})` : ''} [${result.type}]`;
+      const outcome = result.result !== undefined ? `${result.result}${result.output ? ` - ${result.output}` : ''}` : result.output || result.status;
+      section += `- ${label} ${result.content}: ${truncate(outcome, MAX_STEP_OUTPUT_LENGTH)}\n`;
     });
-    return result;
-  } catch (error) {
-    try {
-      const result = execSync(`find "${directory}" -maxdepth 2 -type f | head -10`, { 
-        encoding: 'utf-8',
-        cwd: directory 
-      });
-      return result;
-    } catch (error2) {
-      return 'Failed to get directory state';
+  }
+
+  section += `【Current step】Step ${context.step} of ${context.total} (${step.type}${iteration}): ${step.content}`;
+  if (step.parameters) {
+    section += ` (Parameters: ${typeof step.parameters === 'string' ? step.parameters : JSON.stringify(step.parameters)})`;
+  }
+  return section;
+}
+
+async function requestLLM(
+  prompt: string,
+  apiClient: ApiClient,
+  options: ExecutionOptions,
+  budget: ExecutionBudget
+): Promise<{ content: string | null; rawResponse: any }> {
+  // Refuse the call before it is made when it would exceed a token or cost budget
+  budget.check(prompt);
+
+  // Call LLM API (Gemini direct or via API)
+  let result: { content: string | null; rawResponse: any };
+  if (options.useGeminiDirect && options.geminiClient) {
+    // Direct request to Gemini API
+    const geminiResult = await RateLimitHandler.executeWithRetry(
+      async () => {
+        const response = await options.geminiClient!.generateContent({ prompt });
+        // The client reports rate limits in the result; throw so they are retried and recorded as RATE_LIMIT_ERROR
+        if (response.error === 'RATE_LIMIT_EXCEEDED') {
+          const error: any = new Error('Gemini API rate limit exceeded');
+          error.status = 429;
+          throw error;
+        }
+        return response;
+      },
+      { maxRetries: 2, baseDelay: 2000 }
+    );
+    result = {
+      content: geminiResult.content,
+      rawResponse: geminiResult.rawResponse
+    };
+  } else {
+    // Request via API
+    result = await RateLimitHandler.executeWithRetry(
+      () => getLLMResponseFromAPI(apiClient, prompt, options.llmEndpoint),
+      { maxRetries: 2, baseDelay: 2000 }
+    );
+  }
+
+  if (result.content) {
+    const usage = await budget.record(prompt, result.content, result.rawResponse);
+    console.log(chalk.gray(`🪙 ${usage.inputTokens + usage.outputTokens} tokens${usage.estimated ? ' (estimated)' : ''}, $${usage.cost.toFixed(4)}`));
+  }
+  return result;
+}
+
+/**
+ * スキーマに沿った応答を得るまで、検証エラーを示して LLM に修正を求める
+ */
+async function requestValidResponse(
+  prompt: string,
+  apiClient: ApiClient,
+  options: ExecutionOptions,
+  maxOperations: number,
+  logManager: LogManager,
+  routineId: string,
+  budget: ExecutionBudget,
+  parse: (text: string, maxOperations: number) => ResponseValidation = parseLLMResponse
+): Promise<{ response: LLMResponse; operations: LLMOperation[]; rawResponse: any }> {
+  let requestPrompt = prompt;
+
+  for (let attempt = 0; ; attempt++) {
+    const llmResult = await requestLLM(requestPrompt, apiClient, options, budget);
+    if (!llmResult?.content) {
+      throw new Error('No response received from LLM API');
+    }
+
+    const content = typeof llmResult.content === 'string' ? llmResult.content : JSON.stringify(llmResult.content);
+    const validation = parse(content, maxOperations);
+    if (validation.response) {
+      return { response: validation.response, operations: validation.operations, rawResponse: llmResult.rawResponse };
+    }
+
+    logManager.log('warning', `routine-${routineId}`, { invalidResponse: truncate(content, MAX_QUOTED_RESPONSE_LENGTH), validationErrors: validation.errors, attempt });
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      const error: any = new Error(`LLM response failed schema validation after ${MAX_REPAIR_ATTEMPTS} repair attempts: ${validation.errors.join('; ')}`);
+      error.code = 'LLM_RESPONSE_INVALID';
+      throw error;
     }
+
+    console.log(chalk.yellow(`⚠️  Invalid LLM response (${validation.errors.length} error(s)), requesting a repair (${attempt + 1}/${MAX_REPAIR_ATTEMPTS})...`));
+    validation.errors.forEach(message => console.log(chalk.gray(`   ${message}`)));
+    requestPrompt = buildRepairPrompt(prompt, content, validation.errors);
+  }
+}
+
+/**
+ * 失敗したコマンドは同じコマンドの再実行の成功で、適用できなかった編集は同じファイルへの書き込みで解消される
+ */
+function resolvesFailure(record: FileOperation, failure: FileOperation): boolean {
+  if (!record.success) {
+    return false;
+  }
+  if (failure.type === 'execute') {
+    return record.type === 'execute' && normalizeCommand(record.command) === normalizeCommand(failure.command);
   }
+  return record.filepath === failure.filepath && (record.type === 'change' || record.type === 'create' || PARTIAL_EDIT_TYPES.includes(record.type));
+}
+
+function normalizeCommand(command: string | undefined): string {
+  return (command ?? '').trim().replace(/\s+/g, ' ');
+}
+
+function buildRepairPrompt(prompt: string, invalidResponse: string, errors: string[]): string {
+  return `${prompt}
+
+【Your previous response was rejected】
+${truncate(invalidResponse, MAX_QUOTED_RESPONSE_LENGTH)}
+
+Validation errors:
+${errors.map(message => `- ${message}`).join('\n')}
+
+Return the same response again as a single JSON object in the requested format that fixes every error above. Return only JSON, without code fences or explanations.`;
+}
+
+function buildContinuationInstruction(step: number, maxSteps: number): string {
+  const remaining = maxSteps - step + 1;
+  return `This is step ${step} of ${maxSteps} (${remaining} remaining). Based on the results above, return the next operations in the same JSON format. Return type="done" when the routine is complete.`;
+}
+
+/**
+ * 1ステップ分のレスポンスと操作結果を次のターン用のテキストにまとめる
+ */
+function formatTurn(step: number, response: LLMResponse, results: OperationResult[], operationCount: number): string {
+  let turn = `【Turn ${step} - your response】\n${JSON.stringify(response)}\n【Turn ${step} - results】\n`;
+  results.forEach((result, index) => {
+    turn += `${index + 1}. ${describeResult(result)}\n`;
+    if (result.observation) {
+      turn += `${result.observation}\n`;
+    }
+  });
+  if (results.length < operationCount) {
+    turn += `The remaining ${operationCount - results.length} operations were skipped because of the failure above. Fix the cause before continuing.\n`;
+  }
+  return turn;
+}
+
+function describeResult(result: OperationResult): string {
+  const { record } = result;
+  const target = record.filepath || record.command || record.pattern || '';
+  return `${record.type}${target ? ` ${target}` : ''}: ${record.success ? 'OK' : `FAILED (${record.error})`}`;
 }
 
 async function getLLMResponseFromAPI(
@@ -439,6 +1193,10 @@ async function getLLMResponseFromAPI(
       rawResponse: response
     };
   } catch (error) {
+    // Rate limits are retried by the caller and counted by the circuit breaker
+    if (RateLimitHandler.isRateLimitError(error)) {
+      throw error;
+    }
     console.error(chalk.red('LLM API call error:'), error);
     return {
       content: null,
@@ -447,184 +1205,385 @@ async function getLLMResponseFromAPI(
   }
 }
 
-function parseJSONResponse(response: string): LLMResponse | null {
-  try {
-    if (response.trim().startsWith('{') && response.trim().endsWith('}')) {
-      return JSON.parse(response.trim()) as LLMResponse;
-    }
-    
-    const jsonStart = response.indexOf('{');
-    const jsonEnd = response.lastIndexOf('}');
-    
-    if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
-      const jsonStr = response.substring(jsonStart, jsonEnd + 1);
-      return JSON.parse(jsonStr) as LLMResponse;
-    }
-    
-    return null;
-  } catch (error) {
-    console.error(chalk.yellow('⚠️  JSON parsing error:'), error);
-    return null;
-  }
-}
-
-/**
- * 危険なコマンドをチェックして実行をブロックする
- */
-function isCommandSafe(command: string): { safe: boolean; reason?: string } {
-  const dangerousCommands = [
-    'rm -rf /',
-    'format',
-    'shutdown',
-    'reboot',
-    'halt',
-    'init 0',
-    'init 6',
-    'dd if=',
-    'mkfs',
-    'fdisk',
-    'parted',
-    'sudo rm',
-    'sudo shutdown',
-    'sudo reboot',
-    'sudo halt'
-  ];
-
-  const dangerousPaths = [
-    '/etc/',
-    '/usr/',
-    '/bin/',
-    '/sbin/',
-    '/boot/',
-    '/sys/',
-    '/proc/',
-    '/dev/'
-  ];
-
-  const lowerCommand = command.toLowerCase().trim();
-  
-  // 危険なコマンドのチェック
-  for (const dangerous of dangerousCommands) {
-    if (lowerCommand.includes(dangerous)) {
-      return { safe: false, reason: `危険なコマンドが検出されました: ${dangerous}` };
-    }
-  }
-
-  // 危険なパスへの操作チェック
-  for (const path of dangerousPaths) {
-    if (lowerCommand.includes(path)) {
-      return { safe: false, reason: `システム重要ディレクトリへの操作は禁止されています: ${path}` };
-    }
-  }
-
-  // sudo権限の使用チェック
-  if (lowerCommand.startsWith('sudo ') && !lowerCommand.includes('npm') && !lowerCommand.includes('yarn')) {
-    return { safe: false, reason: '管理者権限が必要なコマンドは制限されています' };
-  }
-
-  return { safe: true };
-}
-
 /**
  * パスがワーキングディレクトリ内に制限されているかチェック
  */
 function isPathSafe(filepath: string, baseDirectory: string): { safe: boolean; reason?: string } {
-  const path = require('path');
-  
   try {
     const resolvedPath = path.resolve(baseDirectory, filepath);
     const resolvedBase = path.resolve(baseDirectory);
     
-    if (!resolvedPath.startsWith(resolvedBase)) {
+    // /work-other のような同じ接頭辞を持つ隣のディレクトリも外側として扱う
+    if (resolvedPath !== resolvedBase && !resolvedPath.startsWith(resolvedBase + path.sep)) {
       return { safe: false, reason: 'ワーキングディレクトリ外への操作は禁止されています' };
     }
-    
+
+    // ポリシー・状態ファイル（.aireer-*）はルーチンから変更させない
+    if (path.relative(resolvedBase, resolvedPath).split(path.sep).some(part => part.startsWith('.aireer-'))) {
+      return { safe: false, reason: 'aireer の設定・状態ファイルへの操作は禁止されています' };
+    }
+
     return { safe: true };
   } catch (error) {
     return { safe: false, reason: 'パスの検証中にエラーが発生しました' };
   }
 }
 
+/**
+ * 操作を順番に適用し、失敗した時点で残りの操作を中止する
+ */
+async function executeFileOperations(
+  operations: LLMOperation[],
+  context: OperationContext
+): Promise<OperationResult[]> {
+  const results: OperationResult[] = [];
+
+  for (let i = 0; i < operations.length; i++) {
+    console.log(chalk.gray(`[${i + 1}/${operations.length}]`));
+    const result = await executeFileOperation(operations[i], context);
+    results.push(result);
+
+    if (!result.record.success) {
+      const remaining = operations.length - i - 1;
+      if (remaining > 0) {
+        console.log(chalk.yellow(`⏭️  Skipping ${remaining} remaining operations`));
+      }
+      break;
+    }
+  }
+
+  return results;
+}
+
 async function executeFileOperation(
-  responseJson: LLMResponse, 
-  fileManager: FileManager, 
-  baseDirectory: string
-): Promise<void> {
-  console.log(chalk.blue(`🔧 Executing operation: ${responseJson.type}`));
+  operation: LLMOperation, 
+  context: OperationContext
+): Promise<OperationResult> {
+  const { fileManager, baseDirectory } = context;
+  console.log(chalk.blue(`🔧 ${context.dryRun ? '[dry run] ' : ''}Executing operation: ${operation.type}`));
+
+  const record: FileOperation = {
+    type: operation.type,
+    filepath: operation.filepath,
+    command: operation.command,
+    pattern: operation.pattern,
+    success: true
+  };
+  const fail = (reason: string, lockedBy?: string): OperationResult => ({ record: { ...record, success: false, error: reason, lockedBy } });
+  const failWith = (error: any): OperationResult => fail(error.message, error.code === 'FILE_LOCKED' ? error.lock.label ?? error.lock.owner : undefined);
 
   // ファイル操作のパス安全性チェック
-  if (responseJson.filepath && !isPathSafe(responseJson.filepath, baseDirectory).safe) {
-    const { reason } = isPathSafe(responseJson.filepath, baseDirectory);
-    console.log(chalk.red(`🚫 セキュリティ制限: ${reason}`));
-    return;
+  if (operation.filepath) {
+    const { safe, reason } = isPathSafe(operation.filepath, baseDirectory);
+    if (!safe) {
+      console.log(chalk.red(`🚫 セキュリティ制限: ${reason}`));
+      return fail(reason!);
+    }
+  }
+
+  // コマンドの実行ディレクトリもワーキングディレクトリ内に制限する
+  if (operation.directory) {
+    const { safe, reason } = isPathSafe(operation.directory, baseDirectory);
+    if (!safe) {
+      console.log(chalk.red(`🚫 セキュリティ制限: ${reason}`));
+      return fail(reason!);
+    }
   }
 
-  switch (responseJson.type) {
+  switch (operation.type) {
     case 'create':
-      if (responseJson.filepath && responseJson.file) {
-        try {
-          await fileManager.createFile(responseJson.filepath, responseJson.file);
-          console.log(chalk.green(`📄 File created: ${responseJson.filepath}`));
-        } catch (error: any) {
-          console.log(chalk.red(`❌ File creation failed: ${error.message}`));
-        }
+      if (!operation.filepath || operation.file === undefined) {
+        return fail('create requires filepath and file');
+      }
+      if (context.dryRun) {
+        return await previewFileChange(operation, record, fileManager);
+      }
+      try {
+        // Lock before the snapshot so a rollback never restores over another routine's changes
+        await fileManager.lock(operation.filepath);
+        context.snapshots?.capture(operation.filepath);
+        await fileManager.createFile(operation.filepath, operation.file);
+        record.bytesWritten = Buffer.byteLength(operation.file);
+        console.log(chalk.green(`📄 File created: ${operation.filepath}`));
+      } catch (error: any) {
+        console.log(chalk.red(`❌ File creation failed: ${error.message}`));
+        return failWith(error);
       }
       break;
 
     case 'change':
-      if (responseJson.filepath && responseJson.file) {
-        try {
-          await fileManager.editFile(responseJson.filepath, responseJson.file);
-          console.log(chalk.green(`📝 File updated: ${responseJson.filepath}`));
-        } catch (error: any) {
-          console.log(chalk.red(`❌ File update failed: ${error.message}`));
-        }
+      if (!operation.filepath || operation.file === undefined) {
+        return fail('change requires filepath and file');
+      }
+      if (context.dryRun) {
+        return await previewFileChange(operation, record, fileManager);
+      }
+      try {
+        await fileManager.lock(operation.filepath);
+        const previousContent = await fileManager.readFile(operation.filepath);
+        context.snapshots?.capture(operation.filepath);
+        await fileManager.editFile(operation.filepath, operation.file);
+        record.bytesWritten = Buffer.byteLength(operation.file);
+        record.diff = createUnifiedDiff(operation.filepath, previousContent, operation.file);
+        console.log(chalk.green(`📝 File updated: ${operation.filepath}`));
+      } catch (error: any) {
+        console.log(chalk.red(`❌ File update failed: ${error.message}`));
+        return failWith(error);
       }
       break;
 
+    case 'patch':
+    case 'replace':
+    case 'edit_lines':
+      if (!operation.filepath) {
+        return fail(`${operation.type} requires filepath`);
+      }
+      return await applyPartialEdit(operation, record, context);
+
     case 'delete':
-      if (responseJson.filepath) {
-        try {
-          await fileManager.deleteFile(responseJson.filepath);
-          console.log(chalk.green(`🗑️  File deleted: ${responseJson.filepath}`));
-        } catch (error: any) {
-          console.log(chalk.red(`❌ File deletion failed: ${error.message}`));
-        }
+      if (!operation.filepath) {
+        return fail('delete requires filepath');
+      }
+      if (context.dryRun) {
+        return await previewFileChange(operation, record, fileManager);
+      }
+      try {
+        await fileManager.lock(operation.filepath);
+        context.snapshots?.capture(operation.filepath);
+        await fileManager.deleteFile(operation.filepath);
+        console.log(chalk.green(`🗑️  File deleted: ${operation.filepath}`));
+      } catch (error: any) {
+        console.log(chalk.red(`❌ File deletion failed: ${error.message}`));
+        return failWith(error);
       }
       break;
 
-    case 'execute':
-      if (responseJson.command) {
-        // コマンドの安全性チェック
-        const { safe, reason } = isCommandSafe(responseJson.command);
-        if (!safe) {
-          console.log(chalk.red(`🚫 コマンド実行をブロックしました: ${reason}`));
-          return;
-        }
+    case 'execute': {
+      if (!operation.command) {
+        return fail('execute requires command');
+      }
 
-        try {
-          console.log(chalk.cyan(`⚡ Executing command: ${responseJson.command}`));
-          const result = execSync(responseJson.command, { 
-            encoding: 'utf-8',
-            cwd: responseJson.directory || baseDirectory,
-            timeout: 30000 // 30 second timeout
-          });
-          console.log(chalk.gray(`Result: ${result.substring(0, 200)}...`));
-        } catch (error: any) {
-          console.log(chalk.red(`❌ Command execution failed: ${error.message}`));
+      // コマンドポリシーのチェック（ドライランでは確認を求めずに判定のみ表示）
+      if (context.dryRun) {
+        const decision = context.commandPolicy.evaluate(operation.command);
+        if (decision.action === 'deny') {
+          console.log(chalk.red(`🚫 [dry run] Command would be blocked: ${decision.reason}`));
+          return fail(decision.reason!);
         }
+        const confirmation = decision.action === 'ask' ? ` (requires confirmation: ${decision.reason})` : '';
+        console.log(chalk.yellow(`🧪 [dry run] Would execute command: ${operation.command}${confirmation}`));
+        return { record, observation: 'Dry run: the command was not executed' };
       }
-      break;
+
+      const decision = await context.commandPolicy.check(operation.command);
+      if (decision.action !== 'allow') {
+        console.log(chalk.red(`🚫 コマンド実行をブロックしました: ${decision.reason}`));
+        return fail(decision.reason!);
+      }
+
+      console.log(chalk.cyan(`⚡ Executing command: ${operation.command}`));
+      context.snapshots?.recordCommand(operation.command);
+      const commandStart = Date.now();
+      const result = spawnSync(operation.command, {
+        shell: true,
+        encoding: 'utf-8',
+        cwd: operation.directory ? path.resolve(baseDirectory, operation.directory) : baseDirectory,
+        timeout: 30000 // 30 second timeout
+      });
+      const stdout = result.stdout || '';
+      const stderr = result.stderr || '';
+
+      record.exitCode = result.status;
+      record.stdout = truncateTail(stdout, MAX_STORED_OUTPUT_LENGTH);
+      record.stderr = truncateTail(stderr, MAX_STORED_OUTPUT_LENGTH);
+      record.durationMs = Date.now() - commandStart;
+
+      const observation = truncate(
+        `exit code: ${result.status ?? 'none'}${result.error ? ` (${result.error.message})` : ''}\n` +
+        `stdout:\n${stdout}\nstderr:\n${stderr}`
+      );
+
+      if (result.error || result.status !== 0) {
+        const reason = result.error?.message
+          || (result.signal ? `Command terminated by ${result.signal}` : `Command exited with code ${result.status}`);
+        console.log(chalk.red(`❌ Command execution failed: ${reason}`));
+        return { record: { ...record, success: false, error: reason }, observation, recoverable: true };
+      }
+
+      console.log(chalk.gray(`Result: ${stdout.substring(0, 200)}...`));
+      return { record, observation };
+    }
+
+    case 'read': {
+      if (!operation.filepath) {
+        return fail('read requires filepath');
+      }
+      try {
+        const content = await fileManager.readFile(operation.filepath);
+        console.log(chalk.gray(`📖 File read: ${operation.filepath} (${content.length} chars)`));
+        return { record, observation: truncate(content) };
+      } catch (error: any) {
+        return fail(error.message);
+      }
+    }
+
+    case 'list': {
+      const directory = operation.filepath || '.';
+      try {
+        const files = fileManager.listFiles(directory, operation.recursive === true);
+        console.log(chalk.gray(`📂 Listed ${files.length} files in ${directory}`));
+        const listed = files.slice(0, MAX_LISTED_FILES).join('\n');
+        const omitted = files.length > MAX_LISTED_FILES ? `\n... (${files.length - MAX_LISTED_FILES} more files)` : '';
+        return { record, observation: truncate(`${listed || '(empty)'}${omitted}`) };
+      } catch (error: any) {
+        return fail(error.message);
+      }
+    }
+
+    case 'search': {
+      if (!operation.pattern) {
+        return fail('search requires pattern');
+      }
+      const matches = await fileManager.searchInFiles(operation.pattern, operation.filepath || '.');
+      console.log(chalk.gray(`🔍 Found ${matches.length} matches for "${operation.pattern}"`));
+      const lines = matches
+        .slice(0, MAX_SEARCH_RESULTS)
+        .map(match => `${match.file}:${match.line}: ${match.content}`)
+        .join('\n');
+      return { record, observation: truncate(lines || '(no matches)') };
+    }
 
     case 'done':
       console.log(chalk.green('✅ Processing completed'));
       break;
 
     default:
-      console.log(chalk.yellow(`⚠️  Unknown operation type: ${responseJson.type}`));
+      console.log(chalk.yellow(`⚠️  Unknown operation type: ${operation.type}`));
+      return fail(`Unknown operation type: ${operation.type}`);
+  }
+
+  return { record };
+}
+
+/**
+ * patch / replace / edit_lines を現在の内容に適用する
+ * 適用できない場合は理由を LLM に返し、ファイルを読み直して再送させる
+ */
+async function applyPartialEdit(
+  operation: LLMOperation,
+  record: FileOperation,
+  context: OperationContext
+): Promise<OperationResult> {
+  const { fileManager } = context;
+  const filepath = operation.filepath!;
+
+  let currentContent: string;
+  let updatedContent: string;
+  try {
+    if (!context.dryRun) {
+      await fileManager.lock(filepath);
+    }
+    currentContent = await fileManager.readFile(filepath);
+    switch (operation.type) {
+      case 'patch':
+        updatedContent = applyUnifiedDiff(currentContent, operation.diff!);
+        break;
+      case 'replace':
+        updatedContent = applySearchReplace(currentContent, operation.search!, operation.replace!);
+        break;
+      default:
+        updatedContent = applyLineEdit(currentContent, operation.startLine!, operation.endLine!, operation.search!, operation.replace!);
+    }
+  } catch (error: any) {
+    if (error.code === 'FILE_LOCKED') {
+      return { record: { ...record, success: false, error: error.message, lockedBy: error.lock.label ?? error.lock.owner } };
+    }
+    console.log(chalk.red(`❌ ${operation.type} rejected for ${filepath}: ${error.message.split('\n')[0]}`));
+    return {
+      record: { ...record, success: false, error: error.message },
+      observation: truncate(error.message),
+      recoverable: true
+    };
+  }
+
+  const diff = createUnifiedDiff(filepath, currentContent, updatedContent);
+  if (context.dryRun) {
+    console.log(chalk.yellow(`🧪 [dry run] Would ${operation.type} ${filepath}`));
+    if (diff) {
+      printDiff(diff);
+    } else {
+      console.log(chalk.gray('   (no changes)'));
+    }
+    return { record: { ...record, diff }, observation: `Dry run: ${operation.type} was not applied${diff ? '' : ' (no changes)'}` };
   }
+
+  try {
+    context.snapshots?.capture(filepath);
+    await fileManager.editFile(filepath, updatedContent);
+  } catch (error: any) {
+    console.log(chalk.red(`❌ File update failed: ${error.message}`));
+    return { record: { ...record, success: false, error: error.message } };
+  }
+
+  console.log(chalk.green(`🩹 File patched (${operation.type}): ${filepath}`));
+  return { record: { ...record, diff, bytesWritten: Buffer.byteLength(updatedContent) } };
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-} 
\ No newline at end of file
+/**
+ * ドライラン時にファイル変更を適用せず、現在のワークスペースとの差分を表示・記録する
+ */
+async function previewFileChange(
+  operation: LLMOperation,
+  record: FileOperation,
+  fileManager: FileManager
+): Promise<OperationResult> {
+  const filepath = operation.filepath!;
+  const info = fileManager.getFileInfo(filepath);
+  const fail = (reason: string): OperationResult => ({ record: { ...record, success: false, error: reason } });
+
+  if (info.isDirectory) {
+    if (operation.type === 'delete') {
+      console.log(chalk.yellow(`🧪 [dry run] Would delete directory: ${filepath}`));
+      return { record, observation: `Dry run: directory ${filepath} would be deleted` };
+    }
+    return fail(`${filepath} is a directory`);
+  }
+
+  // 実際の操作と同じ前提条件をチェックする
+  if (operation.type === 'change' && !info.exists) {
+    return fail(`ファイルが存在しません: ${filepath}`);
+  }
+  if (operation.type === 'delete' && !info.exists) {
+    console.log(chalk.yellow(`🧪 [dry run] File does not exist, nothing to delete: ${filepath}`));
+    return { record, observation: `Dry run: ${filepath} does not exist` };
+  }
+
+  const currentContent = info.exists ? await fileManager.readFile(filepath) : null;
+  const proposedContent = operation.type === 'delete' ? null : operation.file!;
+  const diff = createUnifiedDiff(filepath, currentContent, proposedContent);
+
+  console.log(chalk.yellow(`🧪 [dry run] Would ${operation.type} ${filepath}`));
+  if (diff) {
+    printDiff(diff);
+  } else {
+    console.log(chalk.gray('   (no changes)'));
+  }
+
+  return {
+    record: { ...record, diff },
+    observation: `Dry run: ${operation.type} was not applied${diff ? '' : ' (no changes)'}`
+  };
+}
+
+function truncate(text: string, maxLength: number = MAX_OBSERVATION_LENGTH): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.substring(0, maxLength)}\n... (truncated, ${text.length - maxLength} more chars)`;
+}
+
+// Keeps the end of command output, where errors are usually reported
+function truncateTail(text: string, maxLength: number): string {
+  return text.length > maxLength ? `...(truncated)\n${text.slice(-maxLength)}` : text;
+}
+ 
\ No newline at end of file
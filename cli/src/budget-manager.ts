@@ -0,0 +1,312 @@
+import chalk from 'chalk';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileLockManager } from './file-lock-manager.js';
+import { estimateTokens } from './workspace-scanner.js';
+
+export interface BudgetSettings {
+  maxTokensPerExecution: number;       // 1回の実行あたりのトークン数（0 は無制限）
+  maxCostPerExecution: number;         // 1回の実行あたりの推定コスト（USD）
+  maxTokensPerRoutinePerDay: number;   // ルーチンごとの1日あたりのトークン数
+  maxCostPerRoutinePerDay: number;     // ルーチンごとの1日あたりの推定コスト（USD）
+  maxTokensPerDay: number;             // 全体の1日あたりのトークン数
+  maxCostPerDay: number;               // 全体の1日あたりの推定コスト（USD）
+  inputCostPerMillionTokens: number;   // 入力100万トークンあたりの料金（USD）
+  outputCostPerMillionTokens: number;  // 出力100万トークンあたりの料金（USD）
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  estimated: boolean; // レスポンスに使用量がなく、文字数から推定した
+}
+
+export interface UsageTotals {
+  tokens: number;
+  cost: number;
+  calls: number;
+}
+
+export interface RemainingBudget {
+  used: UsageTotals;
+  remainingTokens?: number; // 上限がない場合は undefined
+  remainingCost?: number;
+}
+
+interface DailyUsage {
+  total: UsageTotals;
+  routines: Record<string, UsageTotals>;
+}
+
+interface BudgetState {
+  settings: BudgetSettings;
+  days: Record<string, DailyUsage>; // キーはローカル日付（YYYY-MM-DD）
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  maxTokensPerExecution: 0,
+  maxCostPerExecution: 0,
+  maxTokensPerRoutinePerDay: 0,
+  maxCostPerRoutinePerDay: 0,
+  maxTokensPerDay: 0,
+  maxCostPerDay: 0,
+  inputCostPerMillionTokens: 0.1,
+  outputCostPerMillionTokens: 0.4
+};
+
+const BUDGET_FILE = '.aireer-budget.json';
+const RETAINED_DAYS = 30;
+
+function emptyTotals(): UsageTotals {
+  return { tokens: 0, cost: 0, calls: 0 };
+}
+
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function remaining(used: UsageTotals, maxTokens: number, maxCost: number): RemainingBudget {
+  return {
+    used,
+    remainingTokens: maxTokens > 0 ? Math.max(0, maxTokens - used.tokens) : undefined,
+    remainingCost: maxCost > 0 ? Math.max(0, maxCost - used.cost) : undefined
+  };
+}
+
+/**
+ * 残り予算を1行で表示する
+ */
+export function formatRemaining(budget: RemainingBudget): string {
+  const parts = [`${budget.used.tokens.toLocaleString()} tokens / $${budget.used.cost.toFixed(4)} used`];
+  if (budget.remainingTokens !== undefined) {
+    parts.push(`${budget.remainingTokens.toLocaleString()} tokens left`);
+  }
+  if (budget.remainingCost !== undefined) {
+    parts.push(`$${budget.remainingCost.toFixed(4)} left`);
+  }
+  return parts.join('  |  ');
+}
+
+/**
+ * LLM のトークン使用量と推定コストを日ごとに記録し、予算の上限を管理する
+ */
+export class BudgetManager {
+  private configDirectory: string;
+  private stateFile: string;
+  private state: BudgetState;
+
+  constructor(configDirectory: string = '.') {
+    this.configDirectory = configDirectory;
+    this.stateFile = path.join(configDirectory, BUDGET_FILE);
+    this.state = this.loadState();
+  }
+
+  private loadState(): BudgetState {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const data = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8'));
+        return {
+          settings: { ...DEFAULT_BUDGET_SETTINGS, ...(data.settings || {}) },
+          days: data.days || {}
+        };
+      }
+    } catch (error) {
+      console.log(chalk.yellow('⚠️  Failed to load budget state. Using default settings.'));
+    }
+
+    return { settings: { ...DEFAULT_BUDGET_SETTINGS }, days: {} };
+  }
+
+  private saveState(): void {
+    try {
+      // 読み込み中の他のプロセスが書きかけのファイルを読まないよう、一時ファイルから置き換える
+      const temporaryFile = `${this.stateFile}.${process.pid}.tmp`;
+      fs.writeFileSync(temporaryFile, JSON.stringify(this.state, null, 2));
+      fs.renameSync(temporaryFile, this.stateFile);
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to save budget state:'), error);
+    }
+  }
+
+  getSettings(): BudgetSettings {
+    return { ...this.state.settings };
+  }
+
+  setSetting(name: string, value: number): boolean {
+    if (!(name in DEFAULT_BUDGET_SETTINGS) || !Number.isFinite(value) || value < 0) {
+      return false;
+    }
+    this.state.settings[name as keyof BudgetSettings] = value;
+    this.saveState();
+    return true;
+  }
+
+  /**
+   * レスポンスから使用量を取り出す（Gemini の usageMetadata、API の usage）
+   * 使用量がない場合はプロンプトと応答の文字数から推定する
+   */
+  measureUsage(prompt: string, content: string | null, rawResponse: any): LLMUsage {
+    const metadata = rawResponse?.usageMetadata
+      ?? rawResponse?.data?.usageMetadata
+      ?? rawResponse?.data?.usage
+      ?? rawResponse?.usage;
+
+    const inputTokens = metadata?.promptTokenCount ?? metadata?.promptTokens ?? metadata?.inputTokens ?? metadata?.prompt_tokens ?? metadata?.input_tokens;
+    const outputTokens = metadata?.candidatesTokenCount ?? metadata?.completionTokens ?? metadata?.outputTokens ?? metadata?.completion_tokens ?? metadata?.output_tokens;
+    const reportedCost = rawResponse?.data?.cost ?? metadata?.cost;
+
+    const estimated = typeof inputTokens !== 'number' || typeof outputTokens !== 'number';
+    const usage = {
+      inputTokens: estimated ? estimateTokens(prompt) : inputTokens,
+      outputTokens: estimated ? estimateTokens(content ?? '') : outputTokens
+    };
+    const cost = typeof reportedCost === 'number' ? reportedCost : this.estimateCost(usage.inputTokens, usage.outputTokens);
+    return { ...usage, cost, estimated };
+  }
+
+  estimateCost(inputTokens: number, outputTokens: number): number {
+    const { inputCostPerMillionTokens, outputCostPerMillionTokens } = this.state.settings;
+    return (inputTokens * inputCostPerMillionTokens + outputTokens * outputCostPerMillionTokens) / 1_000_000;
+  }
+
+  /**
+   * 使用量を記録する（他のプロセスの記録を失わないよう、ロックを取得してファイルを読み直してから加算する）
+   */
+  async record(routineId: string, usage: LLMUsage): Promise<void> {
+    const locks = FileLockManager.shared();
+    const owner = `budget-${crypto.randomUUID()}`;
+    await locks.acquire(this.configDirectory, BUDGET_FILE, owner, 'LLM budget');
+    try {
+      this.state = this.loadState();
+      const day = this.getDay(today());
+      const routine = day.routines[routineId] ?? (day.routines[routineId] = emptyTotals());
+      for (const totals of [day.total, routine]) {
+        totals.tokens += usage.inputTokens + usage.outputTokens;
+        totals.cost += usage.cost;
+        totals.calls++;
+      }
+      this.pruneDays();
+      this.saveState();
+    } finally {
+      locks.release(owner);
+    }
+  }
+
+  getRoutineBudget(routineId: string): RemainingBudget {
+    const { maxTokensPerRoutinePerDay, maxCostPerRoutinePerDay } = this.state.settings;
+    const used = this.state.days[today()]?.routines[routineId] ?? emptyTotals();
+    return remaining(used, maxTokensPerRoutinePerDay, maxCostPerRoutinePerDay);
+  }
+
+  getDailyBudget(): RemainingBudget {
+    const { maxTokensPerDay, maxCostPerDay } = this.state.settings;
+    const used = this.state.days[today()]?.total ?? emptyTotals();
+    return remaining(used, maxTokensPerDay, maxCostPerDay);
+  }
+
+  /**
+   * 次の LLM 呼び出しで1日の予算を超える場合、その理由を返す（routineId 未指定時は全体のみ）
+   */
+  checkDaily(routineId?: string, nextTokens: number = 0): string | null {
+    this.state = this.loadState();
+    const settings = this.state.settings;
+    const day = this.state.days[today()];
+    const total = day?.total ?? emptyTotals();
+    const globalReason = exceeds('Daily', total, nextTokens, settings.maxTokensPerDay, settings.maxCostPerDay);
+    if (globalReason || !routineId) {
+      return globalReason;
+    }
+
+    const routine = day?.routines[routineId] ?? emptyTotals();
+    return exceeds('Daily routine', routine, nextTokens, settings.maxTokensPerRoutinePerDay, settings.maxCostPerRoutinePerDay);
+  }
+
+  /**
+   * 1回の実行ごとの予算
+   */
+  forExecution(routineId: string): ExecutionBudget {
+    return new ExecutionBudget(this, routineId);
+  }
+
+  private getDay(date: string): DailyUsage {
+    return this.state.days[date] ?? (this.state.days[date] = { total: emptyTotals(), routines: {} });
+  }
+
+  private pruneDays(): void {
+    const dates = Object.keys(this.state.days).sort();
+    for (const date of dates.slice(0, Math.max(0, dates.length - RETAINED_DAYS))) {
+      delete this.state.days[date];
+    }
+  }
+
+  displayStatus(): void {
+    console.log(chalk.blue('\n💰 LLM budget status (today)'));
+    console.log(chalk.gray('━'.repeat(30)));
+    console.log(chalk.white(`All routines: ${formatRemaining(this.getDailyBudget())}`));
+
+    const routines = Object.entries(this.state.days[today()]?.routines ?? {});
+    routines.forEach(([routineId]) => {
+      console.log(chalk.gray(`  ${routineId}: ${formatRemaining(this.getRoutineBudget(routineId))}`));
+    });
+
+    console.log(chalk.blue('\n⚙️  Limits (0 = unlimited):'));
+    Object.entries(this.state.settings).forEach(([name, value]) => {
+      console.log(chalk.gray(`${name}: ${value}`));
+    });
+    console.log();
+  }
+}
+
+function exceeds(scope: string, used: UsageTotals, nextTokens: number, maxTokens: number, maxCost: number): string | null {
+  if (maxTokens > 0 && (used.tokens >= maxTokens || used.tokens + nextTokens > maxTokens)) {
+    return `${scope} token budget exhausted (${used.tokens.toLocaleString()} used + ${nextTokens.toLocaleString()} requested, limit: ${maxTokens.toLocaleString()})`;
+  }
+  if (maxCost > 0 && used.cost >= maxCost) {
+    return `${scope} cost budget exhausted ($${used.cost.toFixed(4)} used, limit: $${maxCost})`;
+  }
+  return null;
+}
+
+/**
+ * 1回のルーチン実行での使用量を集計し、呼び出し前に予算を確認する
+ */
+export class ExecutionBudget {
+  private manager: BudgetManager;
+  private routineId: string;
+  private used: UsageTotals = emptyTotals();
+
+  constructor(manager: BudgetManager, routineId: string) {
+    this.manager = manager;
+    this.routineId = routineId;
+  }
+
+  /**
+   * プロンプトを送る前に予算を確認する（超える場合は例外）
+   */
+  check(prompt: string): void {
+    const nextTokens = estimateTokens(prompt);
+    const settings = this.manager.getSettings();
+    const reason = exceeds('Execution', this.used, nextTokens, settings.maxTokensPerExecution, settings.maxCostPerExecution)
+      ?? this.manager.checkDaily(this.routineId, nextTokens);
+
+    if (reason) {
+      throw Object.assign(new Error(`LLM budget exceeded: ${reason}`), { code: 'BUDGET_EXCEEDED' });
+    }
+  }
+
+  async record(prompt: string, content: string | null, rawResponse: any): Promise<LLMUsage> {
+    const usage = this.manager.measureUsage(prompt, content, rawResponse);
+    this.used.tokens += usage.inputTokens + usage.outputTokens;
+    this.used.cost += usage.cost;
+    this.used.calls++;
+    await this.manager.record(this.routineId, usage);
+    return usage;
+  }
+
+  getUsed(): UsageTotals {
+    return { ...this.used };
+  }
+}
@@ -0,0 +1,290 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogManager } from './log-manager.js';
+import { ExecutionDetail } from './execution-history.js';
+
+export interface CircuitBreakerSettings {
+  maxConsecutiveFailures: number;       // ルーチン単位: 連続失敗でルーチンを一時停止
+  maxGlobalConsecutiveFailures: number; // 全体: 連続失敗で自律モードを停止
+  maxCommandFailuresPerWindow: number;  // ルーチン単位: コマンド失敗の繰り返しで一時停止
+  maxDeletesPerWindow: number;          // 全体: 削除操作の急増で停止
+  maxBytesWrittenPerWindow: number;     // 全体: 書き込み量の急増で停止
+  maxRateLimitErrorsPerWindow: number;  // 全体: レート制限エラーの増加で停止
+  windowSeconds: number;                // 時間窓（秒）
+}
+
+interface TripRecord {
+  reason: string;
+  trippedAt: string;
+}
+
+interface BreakerState {
+  settings: CircuitBreakerSettings;
+  halted?: TripRecord;
+  pausedRoutines: Record<string, TripRecord & { routineName: string }>;
+}
+
+interface TimedEvent {
+  at: number;
+  routineId?: string;
+  amount: number;
+}
+
+export type BreakerDecision =
+  | { action: 'none' }
+  | { action: 'pause-routine'; routineId: string; reason: string }
+  | { action: 'halt'; reason: string };
+
+export const DEFAULT_BREAKER_SETTINGS: CircuitBreakerSettings = {
+  maxConsecutiveFailures: 3,
+  maxGlobalConsecutiveFailures: 10,
+  maxCommandFailuresPerWindow: 5,
+  maxDeletesPerWindow: 20,
+  maxBytesWrittenPerWindow: 5 * 1024 * 1024, // 5MB
+  maxRateLimitErrorsPerWindow: 5,
+  windowSeconds: 600 // 10分
+};
+
+/**
+ * 自律モードの異常を検知し、ルーチンの一時停止やループ全体の停止を判断する
+ */
+export class CircuitBreaker {
+  private stateFile: string;
+  private state: BreakerState;
+  private logManager?: LogManager;
+
+  private consecutiveFailures = new Map<string, number>();
+  private globalConsecutiveFailures = 0;
+  private deletes: TimedEvent[] = [];
+  private bytesWritten: TimedEvent[] = [];
+  private commandFailures: TimedEvent[] = [];
+  private rateLimitErrors: TimedEvent[] = [];
+
+  constructor(configDirectory: string = '.', logManager?: LogManager) {
+    this.stateFile = path.join(configDirectory, '.aireer-state.json');
+    this.logManager = logManager;
+    this.state = this.loadState();
+  }
+
+  private loadState(): BreakerState {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const data = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8'));
+        return {
+          settings: { ...DEFAULT_BREAKER_SETTINGS, ...(data.settings || {}) },
+          halted: data.halted,
+          pausedRoutines: data.pausedRoutines || {}
+        };
+      }
+    } catch (error) {
+      console.log(chalk.yellow('⚠️  Failed to load circuit breaker state. Using default settings.'));
+    }
+
+    return { settings: { ...DEFAULT_BREAKER_SETTINGS }, pausedRoutines: {} };
+  }
+
+  private saveState(): void {
+    try {
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to save circuit breaker state:'), error);
+    }
+  }
+
+  getSettings(): CircuitBreakerSettings {
+    return { ...this.state.settings };
+  }
+
+  setSetting(name: string, value: number): boolean {
+    if (!(name in DEFAULT_BREAKER_SETTINGS) || !Number.isFinite(value) || value <= 0) {
+      return false;
+    }
+    (this.state.settings as any)[name] = value;
+    this.saveState();
+    return true;
+  }
+
+  getHaltReason(): TripRecord | undefined {
+    return this.state.halted;
+  }
+
+  isRoutinePaused(routineId: string): boolean {
+    return routineId in this.state.pausedRoutines;
+  }
+
+  /**
+   * 停止・一時停止を解除する（routineId 未指定時はすべて解除）
+   */
+  resume(routineId?: string): string[] {
+    const resumed: string[] = [];
+
+    if (routineId) {
+      if (this.state.pausedRoutines[routineId]) {
+        delete this.state.pausedRoutines[routineId];
+        this.consecutiveFailures.delete(routineId);
+        resumed.push(routineId);
+      }
+    } else {
+      if (this.state.halted) {
+        delete this.state.halted;
+        resumed.push('autonomous loop');
+      }
+      resumed.push(...Object.keys(this.state.pausedRoutines));
+      this.state.pausedRoutines = {};
+      this.consecutiveFailures.clear();
+      this.globalConsecutiveFailures = 0;
+    }
+
+    this.saveState();
+    return resumed;
+  }
+
+  /**
+   * ルーチン実行結果を記録し、しきい値を超えた場合は遮断する
+   */
+  recordExecution(execution: ExecutionDetail): BreakerDecision {
+    const now = Date.now();
+    const settings = this.state.settings;
+    const { routineId } = execution;
+
+    if (execution.success) {
+      this.consecutiveFailures.set(routineId, 0);
+      this.globalConsecutiveFailures = 0;
+    } else {
+      this.consecutiveFailures.set(routineId, (this.consecutiveFailures.get(routineId) || 0) + 1);
+      this.globalConsecutiveFailures++;
+    }
+
+    if (execution.errorType === 'RATE_LIMIT_ERROR') {
+      this.rateLimitErrors.push({ at: now, amount: 1 });
+    }
+
+    // ドライランの操作は適用されていないため集計しない
+    if (!execution.dryRun) {
+      for (const op of execution.fileOperations || []) {
+        if (op.type === 'delete' && op.success) {
+          this.deletes.push({ at: now, routineId, amount: 1 });
+        }
+        if (op.bytesWritten) {
+          this.bytesWritten.push({ at: now, routineId, amount: op.bytesWritten });
+        }
+        if (op.type === 'execute' && !op.success) {
+          this.commandFailures.push({ at: now, routineId, amount: 1 });
+        }
+      }
+    }
+
+    this.pruneEvents(now);
+
+    // 全体を停止する条件
+    if (this.globalConsecutiveFailures >= settings.maxGlobalConsecutiveFailures) {
+      return this.halt(`${this.globalConsecutiveFailures} consecutive failed executions across all routines`);
+    }
+    const deletes = this.sum(this.deletes);
+    if (deletes > settings.maxDeletesPerWindow) {
+      return this.halt(`${deletes} deletions within ${settings.windowSeconds} seconds (limit: ${settings.maxDeletesPerWindow})`);
+    }
+    const bytes = this.sum(this.bytesWritten);
+    if (bytes > settings.maxBytesWrittenPerWindow) {
+      return this.halt(`${bytes} bytes written within ${settings.windowSeconds} seconds (limit: ${settings.maxBytesWrittenPerWindow})`);
+    }
+    const rateLimitDecision = this.checkRateLimits();
+    if (rateLimitDecision.action !== 'none') {
+      return rateLimitDecision;
+    }
+
+    // ルーチンを一時停止する条件
+    const routineFailures = this.consecutiveFailures.get(routineId) || 0;
+    if (routineFailures >= settings.maxConsecutiveFailures) {
+      return this.pauseRoutine(routineId, execution.routineName, `${routineFailures} consecutive failed executions`);
+    }
+    const commandFailures = this.sum(this.commandFailures.filter(event => event.routineId === routineId));
+    if (commandFailures >= settings.maxCommandFailuresPerWindow) {
+      return this.pauseRoutine(routineId, execution.routineName, `${commandFailures} failed commands within ${settings.windowSeconds} seconds`);
+    }
+
+    return { action: 'none' };
+  }
+
+  /**
+   * サイクル全体で発生したレート制限エラーを記録する
+   */
+  recordRateLimitError(): BreakerDecision {
+    const now = Date.now();
+    this.rateLimitErrors.push({ at: now, amount: 1 });
+    this.pruneEvents(now);
+    return this.checkRateLimits();
+  }
+
+  private checkRateLimits(): BreakerDecision {
+    const settings = this.state.settings;
+    const rateLimitErrors = this.sum(this.rateLimitErrors);
+    if (rateLimitErrors >= settings.maxRateLimitErrorsPerWindow) {
+      return this.halt(`${rateLimitErrors} rate limit errors within ${settings.windowSeconds} seconds`);
+    }
+    return { action: 'none' };
+  }
+
+  private halt(reason: string): BreakerDecision {
+    this.state.halted = { reason, trippedAt: new Date().toISOString() };
+    this.saveState();
+    this.logTrip('breaker-global', reason, { scope: 'global' });
+    return { action: 'halt', reason };
+  }
+
+  private pauseRoutine(routineId: string, routineName: string, reason: string): BreakerDecision {
+    this.state.pausedRoutines[routineId] = { routineName, reason, trippedAt: new Date().toISOString() };
+    this.saveState();
+    this.logTrip(`breaker-routine-${routineId}`, reason, { scope: 'routine', routineId, routineName });
+    return { action: 'pause-routine', routineId, reason };
+  }
+
+  private logTrip(taskId: string, reason: string, context: any): void {
+    const error = new Error(`Circuit breaker tripped: ${reason}`);
+    if (this.logManager) {
+      this.logManager.logError(taskId, error, 'ANOMALY_DETECTED', { ...context, settings: this.state.settings });
+    } else {
+      console.error(chalk.red(`❌ ${error.message}`));
+    }
+  }
+
+  private pruneEvents(now: number): void {
+    const cutoff = now - this.state.settings.windowSeconds * 1000;
+    this.deletes = this.deletes.filter(event => event.at > cutoff);
+    this.bytesWritten = this.bytesWritten.filter(event => event.at > cutoff);
+    this.commandFailures = this.commandFailures.filter(event => event.at > cutoff);
+    this.rateLimitErrors = this.rateLimitErrors.filter(event => event.at > cutoff);
+  }
+
+  private sum(events: TimedEvent[]): number {
+    return events.reduce((total, event) => total + event.amount, 0);
+  }
+
+  displayStatus(): void {
+    console.log(chalk.blue('\n🛡️  Circuit breaker status'));
+    console.log(chalk.gray('━'.repeat(30)));
+
+    if (this.state.halted) {
+      console.log(chalk.red(`Autonomous mode: ⛔ Halted (${new Date(this.state.halted.trippedAt).toLocaleString()})`));
+      console.log(chalk.gray(`   Reason: ${this.state.halted.reason}`));
+    } else {
+      console.log(chalk.green('Autonomous mode: ✅ Running allowed'));
+    }
+
+    const paused = Object.entries(this.state.pausedRoutines);
+    if (paused.length > 0) {
+      console.log(chalk.yellow(`\nPaused routines (${paused.length}):`));
+      paused.forEach(([routineId, trip]) => {
+        console.log(chalk.white(`  ${trip.routineName} (ID: ${routineId})`));
+        console.log(chalk.gray(`     Reason: ${trip.reason}  |  Since: ${new Date(trip.trippedAt).toLocaleString()}`));
+      });
+    }
+
+    console.log(chalk.blue('\n⚙️  Thresholds:'));
+    Object.entries(this.state.settings).forEach(([name, value]) => {
+      console.log(chalk.gray(`${name}: ${value}`));
+    });
+    console.log();
+  }
+}
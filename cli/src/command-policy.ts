@@ -0,0 +1,521 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogManager } from './log-manager.js';
+
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+
+export interface PolicyRule {
+  id?: string;
+  command?: string | string[]; // 解析したコマンド名（パスを除いた名前）と一致
+  pattern?: string;            // コマンドセグメントに対する正規表現
+  argument?: string;           // 引数のいずれか（クォートを外し、~・$HOME を展開した値）に対する正規表現
+  flags?: string;              // 正規表現フラグ（デフォルト: i）
+  piped?: boolean;             // パイプから入力を受け取るセグメントのみに適用
+  action: PolicyAction;
+  reason?: string;
+}
+
+interface PolicyFile {
+  defaultAction?: PolicyAction;
+  rules?: PolicyRule[];
+  allowBuiltinOverrides?: boolean; // グローバルのポリシーでのみ有効: ポリシーファイルのルールで組み込みの deny を上書きできる
+}
+
+type RuleSource = 'protected' | 'project' | 'global' | 'builtin';
+
+interface LoadedRule extends PolicyRule {
+  source: RuleSource;
+}
+
+export interface CommandSegment {
+  text: string;
+  name: string;
+  args: string[];
+  piped: boolean;  // 直前が | で繋がっている（シェルにプロセス置換・コマンド置換の結果を渡す場合を含む）
+  nested: boolean; // $(...)、`...`、(...) の中のコマンド
+}
+
+export interface SegmentDecision {
+  segment: CommandSegment;
+  action: PolicyAction;
+  rule?: LoadedRule;
+}
+
+export interface PolicyDecision {
+  command: string;
+  action: PolicyAction;
+  reason?: string;
+  segments: SegmentDecision[];
+}
+
+const POLICY_FILE = '.aireer-policy.json';
+
+const SHELLS = ['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish'];
+
+const HOME_DIRECTORY = os.homedir();
+
+// コマンド名の前に付く実行ラッパー（中のコマンドも評価する）
+const COMMAND_WRAPPERS = ['sudo', 'env', 'nohup', 'time', 'nice', 'exec', 'command', 'xargs', 'timeout', 'watch'];
+
+// ユーザー定義のルールより優先される保護ルール
+const PROTECTED_RULES: PolicyRule[] = [
+  {
+    id: 'protect-aireer-files',
+    pattern: '\\.aireer-(policy|state|priorities|budget)\\.json|\\.aireer-(snapshots|templates|locks|routines)',
+    action: 'deny',
+    reason: 'aireer configuration and safety files cannot be modified by commands'
+  }
+];
+
+// 組み込みルール。deny はポリシーファイルのルールより先に評価され（グローバルのポリシーで allowBuiltinOverrides を
+// 指定した場合を除く）、それ以外はポリシーファイルで上書きされなかった場合に適用される
+const BUILTIN_RULES: PolicyRule[] = [
+  {
+    id: 'rm-root-or-home',
+    command: 'rm',
+    argument: `^(/|${escapeRegExp(HOME_DIRECTORY)}|\\.\\.)/?\\*?$`,
+    action: 'deny',
+    reason: 'Deleting the root, home or parent directory'
+  },
+  {
+    id: 'system-power',
+    command: ['shutdown', 'reboot', 'halt', 'poweroff'],
+    action: 'deny',
+    reason: 'System power commands'
+  },
+  {
+    id: 'init-runlevel',
+    command: ['init', 'telinit'],
+    action: 'deny',
+    reason: 'Changing the system runlevel'
+  },
+  {
+    id: 'disk-tools',
+    pattern: '^(mkfs(\\.\\w+)?|fdisk|sfdisk|parted|dd|format|diskutil)(\\s|$)',
+    action: 'deny',
+    reason: 'Disk formatting and raw disk access'
+  },
+  {
+    id: 'pipe-to-shell',
+    command: SHELLS,
+    piped: true,
+    action: 'deny',
+    reason: 'Piping content into a shell'
+  },
+  {
+    id: 'system-paths',
+    pattern: '(^|[\\s=<>:"\'])(/etc|/usr|/bin|/sbin|/boot|/sys|/proc|/dev/(?!null\\b|stdout\\b|stderr\\b|tty\\b))(/|[\\s"\']|$)',
+    action: 'deny',
+    reason: 'Operations on system directories'
+  },
+  {
+    id: 'sudo',
+    command: 'sudo',
+    action: 'ask',
+    reason: 'Administrator privileges'
+  }
+];
+
+/**
+ * コマンドラインをパイプ・チェーン・サブシェル単位のセグメントに分解する
+ */
+export function parseCommandLine(line: string, nested: boolean = false): CommandSegment[] {
+  const segments: CommandSegment[] = [];
+  let current = '';
+  let piped = false;
+  let substituted = false;
+  let quote: '"' | "'" | null = null;
+
+  const flush = (nextPiped: boolean) => {
+    segments.push(...buildSegments(current, piped, nested, substituted));
+    current = '';
+    piped = nextPiped;
+    substituted = false;
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    const next = line[i + 1];
+
+    if (quote === "'") {
+      current += char;
+      if (char === "'") quote = null;
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < line.length) {
+      current += char + next;
+      i++;
+      continue;
+    }
+
+    // コマンド置換はダブルクォート内でも実行される
+    if ((char === '$' && next === '(') || char === '`') {
+      const start = char === '`' ? i + 1 : i + 2;
+      const end = char === '`' ? line.indexOf('`', start) : findClosingParen(line, start);
+      const stop = end === -1 ? line.length : end;
+      segments.push(...parseCommandLine(line.substring(start, stop), true));
+      current += line.substring(i, Math.min(stop + 1, line.length));
+      substituted = true;
+      i = stop;
+      continue;
+    }
+
+    if (quote === '"') {
+      current += char;
+      if (char === '"') quote = null;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+      continue;
+    }
+
+    // サブシェル・プロセス置換
+    if (char === '(') {
+      const end = findClosingParen(line, i + 1);
+      const stop = end === -1 ? line.length : end;
+      segments.push(...parseCommandLine(line.substring(i + 1, stop), true));
+      if (line[i - 1] === '<') {
+        substituted = true;
+      }
+      current += line.substring(i, Math.min(stop + 1, line.length));
+      i = stop;
+      continue;
+    }
+
+    if (char === '|') {
+      if (next === '|') {
+        flush(false);
+        i++;
+      } else {
+        flush(true);
+        if (next === '&') i++;
+      }
+      continue;
+    }
+
+    if (char === '&') {
+      // リダイレクト（2>&1、&>）は区切りではない
+      if (line[i - 1] === '>' || next === '>') {
+        current += char;
+        continue;
+      }
+      flush(false);
+      if (next === '&') i++;
+      continue;
+    }
+
+    if (char === ';' || char === '\n') {
+      flush(false);
+      continue;
+    }
+
+    current += char;
+  }
+
+  flush(false);
+  return segments;
+}
+
+function findClosingParen(line: string, start: number): number {
+  let depth = 1;
+  let quote: string | null = null;
+  for (let i = start; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function tokenize(text: string): string[] {
+  // "$HOME"/ のようにクォートと地の文が続く場合は1つの単語として扱う
+  const words = text.match(/(?:"(?:\\.|[^"\\])*"|'[^']*'|[^\s"']+)+/g) || [];
+  return words.map(word => word.replace(/"((?:\\.|[^"\\])*)"|'([^']*)'/g, (match, double, single) => double ?? single));
+}
+
+/**
+ * 引数の ~・$HOME・${HOME} をホームディレクトリに展開する
+ */
+function expandArgument(arg: string): string {
+  return arg.replace(/^(~|\$HOME|\$\{HOME\})(?=\/|$)/, HOME_DIRECTORY);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * substituted: セグメント内でプロセス置換（<(...)）・コマンド置換の結果を受け取っている
+ * シェルの場合はパイプで渡されたのと同じく、取得した内容をそのまま実行する
+ */
+function buildSegments(rawText: string, piped: boolean, nested: boolean, substituted: boolean = false): CommandSegment[] {
+  const text = rawText.trim();
+  if (!text) {
+    return [];
+  }
+
+  let words = tokenize(text);
+  // 先頭の環境変数代入（FOO=bar cmd）を読み飛ばす
+  while (words.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) {
+    words = words.slice(1);
+  }
+  if (words.length === 0) {
+    return [];
+  }
+
+  const name = path.basename(words[0]);
+  const segments: CommandSegment[] = [{ text, name, args: words.slice(1), piped: piped || (substituted && SHELLS.includes(name)), nested }];
+
+  // sh -c "..." に渡されたスクリプトも評価する
+  const scriptIndex = words.indexOf('-c');
+  if (SHELLS.includes(name) && scriptIndex !== -1 && words[scriptIndex + 1]) {
+    segments.push(...parseCommandLine(words[scriptIndex + 1], true));
+  }
+
+  // sudo / env などのラッパーの中のコマンドも評価する
+  if (COMMAND_WRAPPERS.includes(name)) {
+    let rest = words.slice(1);
+    while (rest.length > 0 && (rest[0].startsWith('-') || /^[A-Za-z_][A-Za-z0-9_]*=/.test(rest[0]) || /^\d+[smhd]?$/.test(rest[0]))) {
+      rest = rest.slice(1);
+    }
+    if (rest.length > 0) {
+      segments.push(...buildSegments(rest.map(word => (/\s/.test(word) ? JSON.stringify(word) : word)).join(' '), piped, nested, substituted));
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * プロジェクト・グローバルのポリシーファイルに基づいてコマンドの実行可否を判定する
+ */
+export class CommandPolicy {
+  private rules: LoadedRule[] = [];
+  private defaultAction: PolicyAction = 'allow';
+  private logManager?: LogManager;
+  private promptQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * globalDirectory: グローバルのポリシーファイルを置くディレクトリ（デフォルト: ホームディレクトリ）
+   */
+  constructor(projectDirectory: string = '.', logManager?: LogManager, globalDirectory: string = os.homedir()) {
+    this.logManager = logManager;
+
+    const globalPolicy = this.loadPolicyFile(path.join(globalDirectory, POLICY_FILE));
+    const projectPolicy = this.loadPolicyFile(path.join(projectDirectory, POLICY_FILE));
+
+    this.defaultAction = projectPolicy?.defaultAction ?? globalPolicy?.defaultAction ?? 'allow';
+    // リポジトリに含まれるプロジェクトのポリシーで組み込みの deny を許可できないよう、上書きはユーザーのグローバル設定でのみ有効にできる
+    const builtinRules = BUILTIN_RULES.map(rule => ({ ...rule, source: 'builtin' as const }));
+    const overridable = globalPolicy?.allowBuiltinOverrides === true;
+    this.rules = [
+      ...PROTECTED_RULES.map(rule => ({ ...rule, source: 'protected' as const })),
+      ...(overridable ? [] : builtinRules.filter(rule => rule.action === 'deny')),
+      ...(projectPolicy?.rules || []).map(rule => ({ ...rule, source: 'project' as const })),
+      ...(globalPolicy?.rules || []).map(rule => ({ ...rule, source: 'global' as const })),
+      ...(overridable ? builtinRules : builtinRules.filter(rule => rule.action !== 'deny'))
+    ];
+  }
+
+  private loadPolicyFile(filePath: string): PolicyFile | null {
+    try {
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+      const policy: PolicyFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      for (const rule of policy.rules || []) {
+        if (!['allow', 'deny', 'ask'].includes(rule.action) || (!rule.command && !rule.pattern && !rule.argument)) {
+          throw new Error(`Invalid rule ${JSON.stringify(rule)}: "action" and "command", "pattern" or "argument" are required`);
+        }
+        if (rule.pattern) {
+          new RegExp(rule.pattern, rule.flags ?? 'i');
+        }
+        if (rule.argument) {
+          new RegExp(rule.argument, rule.flags ?? 'i');
+        }
+      }
+      return policy;
+    } catch (error: any) {
+      console.log(chalk.yellow(`⚠️  Failed to load command policy ${filePath}: ${error.message}`));
+      return null;
+    }
+  }
+
+  getRules(): LoadedRule[] {
+    return this.rules;
+  }
+
+  getDefaultAction(): PolicyAction {
+    return this.defaultAction;
+  }
+
+  /**
+   * コマンドを評価する（ask の確認は行わない）
+   */
+  evaluate(command: string): PolicyDecision {
+    const segments = parseCommandLine(command).map(segment => this.evaluateSegment(segment));
+
+    // deny > ask > allow の順に優先
+    const denied = segments.find(s => s.action === 'deny');
+    const asked = segments.find(s => s.action === 'ask');
+    const decisive = denied || asked;
+
+    return {
+      command,
+      action: decisive ? decisive.action : segments.length > 0 ? 'allow' : this.defaultAction,
+      reason: decisive ? this.describe(decisive) : undefined,
+      segments
+    };
+  }
+
+  /**
+   * コマンドを評価し、ask の場合はユーザーに確認した上で最終的な判定を返す
+   */
+  async check(command: string): Promise<PolicyDecision> {
+    let decision = this.evaluate(command);
+
+    if (decision.action === 'ask') {
+      const approved = await this.askUser(decision);
+      decision = {
+        ...decision,
+        action: approved ? 'allow' : 'deny',
+        reason: approved ? `${decision.reason} (approved by user)` : `${decision.reason} (not approved)`
+      };
+    }
+
+    this.logDecision(decision);
+    return decision;
+  }
+
+  private evaluateSegment(segment: CommandSegment): SegmentDecision {
+    const rule = this.rules.find(candidate => this.matches(candidate, segment));
+    return { segment, action: rule ? rule.action : this.defaultAction, rule };
+  }
+
+  private matches(rule: PolicyRule, segment: CommandSegment): boolean {
+    if (rule.command) {
+      const names = Array.isArray(rule.command) ? rule.command : [rule.command];
+      if (!names.includes(segment.name)) {
+        return false;
+      }
+    }
+    if (rule.piped !== undefined && rule.piped !== segment.piped) {
+      return false;
+    }
+    if (rule.pattern && !new RegExp(rule.pattern, rule.flags ?? 'i').test(segment.text)) {
+      return false;
+    }
+    if (rule.argument) {
+      const regex = new RegExp(rule.argument, rule.flags ?? 'i');
+      if (!segment.args.some(arg => regex.test(arg) || regex.test(expandArgument(arg)))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private describe(decision: SegmentDecision): string {
+    const ruleName = decision.rule
+      ? `${decision.rule.source} rule ${decision.rule.id || decision.rule.command || decision.rule.pattern}`
+      : 'default action';
+    return `${decision.rule?.reason || `${decision.action} by policy`} [${ruleName}] in "${decision.segment.text}"`;
+  }
+
+  private async askUser(decision: PolicyDecision): Promise<boolean> {
+    if (!process.stdin.isTTY) {
+      return false;
+    }
+
+    // 並列実行中のルーチンからの確認は1件ずつ表示する
+    const answer = this.promptQueue.then(async () => {
+      console.log(chalk.yellow(`\n❓ Command requires confirmation: ${decision.reason}`));
+      const { approved } = await inquirer.prompt([{
+        type: 'confirm',
+        name: 'approved',
+        message: `Allow command "${decision.command}"?`,
+        default: false
+      }]);
+      return approved as boolean;
+    });
+    this.promptQueue = answer.catch(() => undefined);
+
+    try {
+      return await answer;
+    } catch {
+      return false;
+    }
+  }
+
+  displayDecision(decision: PolicyDecision): void {
+    const colors = { allow: chalk.green, deny: chalk.red, ask: chalk.yellow };
+    const icons = { allow: '✅', deny: '🚫', ask: '❓' };
+
+    console.log(chalk.blue(`\n🔍 Command: ${decision.command}`));
+    console.log(chalk.gray('━'.repeat(30)));
+
+    if (decision.segments.length === 0) {
+      console.log(chalk.gray(`(no commands found - default action: ${this.defaultAction})`));
+    }
+    decision.segments.forEach((s, index) => {
+      const flags = [s.segment.piped ? 'piped' : '', s.segment.nested ? 'subshell' : ''].filter(Boolean).join(', ');
+      console.log(colors[s.action](`${index + 1}. ${icons[s.action]} ${s.action.toUpperCase()}  ${s.segment.text}`));
+      console.log(chalk.gray(`     command: ${s.segment.name}${flags ? ` (${flags})` : ''}`));
+      console.log(chalk.gray(`     rule: ${s.rule ? `${s.rule.source} ${s.rule.id || s.rule.command || s.rule.pattern}${s.rule.reason ? ` - ${s.rule.reason}` : ''}` : 'none (default action)'}`));
+    });
+
+    console.log(colors[decision.action](`\nDecision: ${icons[decision.action]} ${decision.action.toUpperCase()}`));
+    if (decision.reason) {
+      console.log(chalk.gray(`   Reason: ${decision.reason}`));
+    }
+    console.log();
+  }
+
+  displayRules(): void {
+    console.log(chalk.blue('\n📜 Command policy rules (evaluated in order)'));
+    console.log(chalk.gray('━'.repeat(30)));
+    this.rules.forEach((rule, index) => {
+      const matcher = [
+        rule.command ? `command=${Array.isArray(rule.command) ? rule.command.join('|') : rule.command}` : '',
+        rule.pattern ? `pattern=/${rule.pattern}/${rule.flags ?? 'i'}` : '',
+        rule.argument ? `argument=/${rule.argument}/${rule.flags ?? 'i'}` : '',
+        rule.piped !== undefined ? `piped=${rule.piped}` : ''
+      ].filter(Boolean).join(' ');
+      console.log(chalk.white(`${index + 1}. [${rule.source}] ${rule.action.toUpperCase()} ${rule.id || ''}`));
+      console.log(chalk.gray(`     ${matcher}${rule.reason ? `  (${rule.reason})` : ''}`));
+    });
+    console.log(chalk.gray(`\nDefault action: ${this.defaultAction}`));
+    console.log(chalk.gray(`Policy files: ${POLICY_FILE} (project), ~/${POLICY_FILE} (global)`));
+    console.log();
+  }
+
+  private logDecision(decision: PolicyDecision): void {
+    const data = {
+      command: decision.command,
+      action: decision.action,
+      reason: decision.reason,
+      segments: decision.segments.map(s => ({
+        segment: s.segment.text,
+        action: s.action,
+        rule: s.rule ? { source: s.rule.source, id: s.rule.id, command: s.rule.command, pattern: s.rule.pattern, argument: s.rule.argument } : null
+      }))
+    };
+    this.logManager?.log(decision.action === 'deny' ? 'warning' : 'info', 'command-policy', data);
+  }
+}
@@ -5,10 +5,14 @@ import chalk from 'chalk';
 
 export type LLMMode = 'api' | 'gemini-direct';
 
+export type RoutineStoreMode = 'api' | 'local';
+
 export interface Config {
   apiUrl: string;
   llmMode: LLMMode;
   geminiApiKey?: string;
+  routineStore?: RoutineStoreMode; // ルーチン定義の保存先（未設定時は api）
+  routineDirectory?: string;       // local の場合のルーチンファイルのディレクトリ（ワーキングディレクトリからの相対パス）
   token?: string;
   user?: {
     id: string;
@@ -84,6 +88,24 @@ export class ConfigManager {
     this.saveConfig();
   }
 
+  getRoutineStore(): RoutineStoreMode {
+    return this.config.routineStore ?? 'api';
+  }
+
+  setRoutineStore(mode: RoutineStoreMode): void {
+    this.config.routineStore = mode;
+    this.saveConfig();
+  }
+
+  getRoutineDirectory(): string {
+    return this.config.routineDirectory ?? '.aireer-routines';
+  }
+
+  setRoutineDirectory(directory: string): void {
+    this.config.routineDirectory = directory;
+    this.saveConfig();
+  }
+
   getToken(): string | undefined {
     return this.config.token;
   }
@@ -130,6 +152,9 @@ export class ConfigManager {
       const hasKey = !!this.config.geminiApiKey;
       console.log(`Gemini API Key: ${hasKey ? chalk.green('✅ Configured') : chalk.red('❌ Not set')}`);
     }
+
+    const routineStore = this.getRoutineStore();
+    console.log(`Routine Store: ${chalk.cyan(routineStore)}${routineStore === 'local' ? chalk.gray(` (${this.getRoutineDirectory()})`) : ''}`);
     
     if (this.config.user) {
       console.log(`User: ${chalk.green(this.config.user.name)} (${this.config.user.email})`);
@@ -11,6 +11,7 @@ import { AuthManager } from './auth-manager.js';
 import { ExecutionHistory } from './execution-history.js';
 import { ApiClient } from './api-client.js';
 import { RoutineManager } from './routine-manager.js';
+import { BudgetManager, RemainingBudget } from './budget-manager.js';
 import { displayCompactLogo } from './logo.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -43,7 +44,9 @@ export interface DashboardData {
     executions: number;
     successes: number;
     failures: number;
+    budget: RemainingBudget;
   }>;
+  budget: RemainingBudget;
   recentExecutions: Array<{
     id: string;
     routineId: string;
@@ -282,6 +285,9 @@ export class DashboardServer {
       };
     }
 
+    // LLM予算（他のプロセスの使用量を反映するため毎回読み込む）
+    const budgetManager = new BudgetManager('.');
+
     // ルーチン一覧
     let routines: any[] = [];
     try {
@@ -303,7 +309,8 @@ export class DashboardServer {
             weight: (routine as any).weight || 1.0,
             executions: routineStats.executions,
             successes: routineStats.successes,
-            failures: routineStats.failures
+            failures: routineStats.failures,
+            budget: budgetManager.getRoutineBudget(routine.id)
           };
         })
       );
@@ -324,6 +331,7 @@ export class DashboardServer {
       systemStatus,
       executionStats,
       routines,
+      budget: budgetManager.getDailyBudget(),
       recentExecutions
     };
   }
@@ -0,0 +1,324 @@
+import chalk from 'chalk';
+
+export interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+// LCS テーブルのサイズ上限（これを超える場合は全行置換として扱う）
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * 文字列を行単位に分割する（末尾の改行は空行として扱わない）
+ */
+export function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * 2つの行配列の差分を計算する
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // 共通の先頭・末尾を除外して比較範囲を小さくする
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const result: DiffLine[] = oldLines.slice(0, prefix).map(line => ({ type: 'equal' as const, line }));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    result.push(...a.map(line => ({ type: 'delete' as const, line })));
+    result.push(...b.map(line => ({ type: 'insert' as const, line })));
+  } else {
+    // lcs[i * width + j] = a[i..] と b[j..] の最長共通部分列の長さ
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        result.push({ type: 'equal', line: a[i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        result.push({ type: 'delete', line: a[i++] });
+      } else {
+        result.push({ type: 'insert', line: b[j++] });
+      }
+    }
+    while (i < a.length) {
+      result.push({ type: 'delete', line: a[i++] });
+    }
+    while (j < b.length) {
+      result.push({ type: 'insert', line: b[j++] });
+    }
+  }
+
+  result.push(...oldLines.slice(oldLines.length - suffix).map(line => ({ type: 'equal' as const, line })));
+  return result;
+}
+
+/**
+ * unified diff 形式の差分を生成する（変更がない場合は空文字列）
+ */
+export function createUnifiedDiff(
+  filepath: string,
+  oldContent: string | null,
+  newContent: string | null,
+  context: number = 3
+): string {
+  const edits = diffLines(splitLines(oldContent ?? ''), splitLines(newContent ?? ''));
+  const changeIndexes = edits
+    .map((edit, index) => (edit.type === 'equal' ? -1 : index))
+    .filter(index => index !== -1);
+
+  if (changeIndexes.length === 0) {
+    return '';
+  }
+
+  let diff = `--- ${oldContent === null ? '/dev/null' : `a/${filepath}`}\n`;
+  diff += `+++ ${newContent === null ? '/dev/null' : `b/${filepath}`}\n`;
+
+  // 近接する変更をまとめてハンクにする
+  const groups: Array<[number, number]> = [];
+  for (const index of changeIndexes) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  for (const [firstChange, lastChange] of groups) {
+    const start = Math.max(0, firstChange - context);
+    const end = Math.min(edits.length, lastChange + context + 1);
+
+    const oldBefore = edits.slice(0, start).filter(edit => edit.type !== 'insert').length;
+    const newBefore = edits.slice(0, start).filter(edit => edit.type !== 'delete').length;
+    const hunk = edits.slice(start, end);
+    const oldCount = hunk.filter(edit => edit.type !== 'insert').length;
+    const newCount = hunk.filter(edit => edit.type !== 'delete').length;
+
+    diff += `@@ -${oldCount === 0 ? oldBefore : oldBefore + 1},${oldCount} +${newCount === 0 ? newBefore : newBefore + 1},${newCount} @@\n`;
+    for (const edit of hunk) {
+      const marker = edit.type === 'equal' ? ' ' : edit.type === 'delete' ? '-' : '+';
+      diff += `${marker}${edit.line}\n`;
+    }
+  }
+
+  return diff;
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function joinLines(lines: string[], trailingNewline: boolean): string {
+  return lines.length === 0 ? '' : `${lines.join('\n')}${trailingNewline ? '\n' : ''}`;
+}
+
+/**
+ * CRLF のファイルは LF に揃えて編集し、編集後に CRLF に戻す
+ */
+function preservingLineEndings(content: string, edit: (content: string) => string): string {
+  if (!content.includes('\r\n')) {
+    return edit(content);
+  }
+  return edit(content.replace(/\r\n/g, '\n')).replace(/\r?\n/g, '\r\n');
+}
+
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n/g, '\n');
+}
+
+/**
+ * unified diff のハンクを取り出す（ハンクの行数は信用せず、次のハンクまでを本文とする）
+ * ファイルヘッダーは最初のハンクより前の "--- " と "+++ " の組、またはハンクの後で次のハンクの直前にある組のみ
+ * （"++ " で始まる行の追加は "+++ " 行になるため、それだけではヘッダーとみなさない）
+ */
+function parseHunks(diff: string): Hunk[] {
+  const lines = splitLines(normalizeLineEndings(diff));
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let fileHeaders = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ') && (!current || HUNK_HEADER.test(lines[i + 2] ?? ''))) {
+      fileHeaders++;
+      if (fileHeaders > 1) {
+        throw new Error('The diff changes more than one file; send one patch operation per file');
+      }
+      i++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      current = { header: line, oldStart: parseInt(header[1]), oldLines: [], newLines: [] };
+      hunks.push(current);
+    } else if (!current || line.startsWith('\\')) {
+      // 最初のハンクより前の行（diff --git など）と "\ No newline at end of file" は無視する
+      continue;
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.substring(1));
+    } else if (line.startsWith('-')) {
+      current.oldLines.push(line.substring(1));
+    } else {
+      // 空のコンテキスト行は先頭の空白が落ちていることが多い
+      const context = line.startsWith(' ') ? line.substring(1) : line;
+      current.oldLines.push(context);
+      current.newLines.push(context);
+    }
+  }
+
+  if (hunks.length === 0) {
+    throw new Error('The diff contains no hunks (expected lines starting with "@@ -start,count +start,count @@")');
+  }
+  return hunks;
+}
+
+function findSequence(lines: string[], sequence: string[], from: number): number[] {
+  const matches: number[] = [];
+  for (let i = from; i + sequence.length <= lines.length; i++) {
+    if (sequence.every((line, offset) => lines[i + offset] === line)) {
+      matches.push(i);
+    }
+  }
+  return matches;
+}
+
+/**
+ * unified diff を適用する
+ * 各ハンクの削除行・コンテキスト行が現在の内容と一致しない場合は例外を投げる
+ * 行番号がずれている場合は、一致する位置のうちハンクの行番号に最も近い位置に適用する
+ */
+export function applyUnifiedDiff(content: string, diff: string): string {
+  return preservingLineEndings(content, normalized => applyHunks(normalized, diff));
+}
+
+function applyHunks(content: string, diff: string): string {
+  const lines = splitLines(content);
+  const trailingNewline = content === '' || content.endsWith('\n');
+  let searchFrom = 0;
+  let offset = 0;
+
+  parseHunks(diff).forEach((hunk, index) => {
+    const expected = Math.max(0, hunk.oldStart - 1 + offset);
+    let position: number;
+
+    if (hunk.oldLines.length === 0) {
+      // 追加のみのハンクは oldStart 行目の後ろに挿入する
+      position = Math.min(Math.max(searchFrom, hunk.oldStart + offset), lines.length);
+    } else {
+      const matches = findSequence(lines, hunk.oldLines, searchFrom);
+      if (matches.length === 0) {
+        throw new Error(`Hunk ${index + 1} (${hunk.header}) does not apply: its context and removed lines were not found in the current file. Read the file again and send a new patch.`);
+      }
+      position = matches.reduce((best, match) => Math.abs(match - expected) < Math.abs(best - expected) ? match : best);
+    }
+
+    lines.splice(position, hunk.oldLines.length, ...hunk.newLines);
+    searchFrom = position + hunk.newLines.length;
+    offset += hunk.newLines.length - hunk.oldLines.length;
+  });
+
+  return joinLines(lines, trailingNewline);
+}
+
+/**
+ * search に完全一致する箇所（1箇所のみ）を replace に置き換える
+ */
+export function applySearchReplace(content: string, search: string, replace: string): string {
+  return preservingLineEndings(content, normalized => replaceOnce(normalized, normalizeLineEndings(search), normalizeLineEndings(replace)));
+}
+
+function replaceOnce(content: string, search: string, replace: string): string {
+  const first = content.indexOf(search);
+  if (first === -1) {
+    throw new Error('The search text was not found in the current file. Read the file again and copy the text exactly, including whitespace.');
+  }
+  let count = 1;
+  for (let next = content.indexOf(search, first + 1); next !== -1; next = content.indexOf(search, next + 1)) {
+    count++;
+  }
+  if (count > 1) {
+    throw new Error(`The search text matches ${count} places in the file. Include more surrounding lines so that it matches exactly once.`);
+  }
+  return content.substring(0, first) + replace + content.substring(first + search.length);
+}
+
+/**
+ * startLine〜endLine 行目（1始まり、両端を含む）を置き換える
+ * 現在の内容が search と一致しない場合は例外を投げる
+ */
+export function applyLineEdit(content: string, startLine: number, endLine: number, search: string, replace: string): string {
+  return preservingLineEndings(content, normalized => replaceLines(normalized, startLine, endLine, normalizeLineEndings(search), normalizeLineEndings(replace)));
+}
+
+function replaceLines(content: string, startLine: number, endLine: number, search: string, replace: string): string {
+  const lines = splitLines(content);
+  const trailingNewline = content === '' || content.endsWith('\n');
+  if (startLine < 1 || endLine < startLine || endLine > lines.length) {
+    throw new Error(`Lines ${startLine}-${endLine} are out of range (the file has ${lines.length} lines)`);
+  }
+
+  const current = lines.slice(startLine - 1, endLine);
+  if (current.join('\n') !== splitLines(search).join('\n')) {
+    throw new Error(`Lines ${startLine}-${endLine} no longer match "search". Their current content is:\n${current.join('\n')}`);
+  }
+
+  lines.splice(startLine - 1, current.length, ...splitLines(replace));
+  return joinLines(lines, trailingNewline);
+}
+
+/**
+ * 差分を色付きでコンソールに表示する
+ */
+export function printDiff(diff: string): void {
+  for (const line of splitLines(diff)) {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else {
+      console.log(chalk.gray(line));
+    }
+  }
+}
@@ -2,6 +2,8 @@ import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ApiClient } from './api-client.js';
+import { printDiff } from './diff-utils.js';
+import { isLocalRoutineStore } from './routine-store.js';
 
 export interface ExecutionDetail {
   id: string;
@@ -10,26 +12,64 @@ export interface ExecutionDetail {
   success: boolean;
   message: string;
   error?: string;
+  errorType?: string;
   duration: number;
   executedAt: string;
   llmPrompt?: string;
   llmResponse?: any;
   fileOperations?: FileOperation[];
+  dryRun?: boolean; // ドライラン（操作は適用されていない）
+  rolledBack?: boolean; // ファイル操作がロールバックされた
+  workspace?: {         // 分離されたワークスペースで実行した場合
+    mode: string;
+    path: string;       // ワーキングディレクトリからの相対パス
+    merged?: string[];
+    conflicts?: string[];
+  };
+  commitHash?: string;       // 実行の変更を記録した git コミット
+  revertCommitHash?: string; // aireer undo で作成した取り消しコミット
+  llmUsage?: {               // この実行での LLM 使用量
+    tokens: number;
+    cost: number;            // 推定コスト（USD）
+    calls: number;
+  };
+  stepResults?: StepExecution[]; // ステップごとに実行した場合の各ステップの結果（実行順）
   systemContext?: {
     directory: string;
     timestamp: string;
     cycleCount?: number;
+    variables?: Record<string, string | number | boolean>; // 実行時に解決したルーチンの変数
   };
 }
 
 export interface FileOperation {
-  type: 'create' | 'change' | 'delete' | 'execute' | 'done';
+  type: 'create' | 'change' | 'patch' | 'replace' | 'edit_lines' | 'delete' | 'execute' | 'read' | 'list' | 'search' | 'done';
   filepath?: string;
   command?: string;
+  pattern?: string;
+  diff?: string;
+  bytesWritten?: number;
+  exitCode?: number | null; // execute: 終了コード（タイムアウト・シグナル終了時は null）
+  stdout?: string;          // execute: 標準出力（末尾を切り詰めて保存）
+  stderr?: string;          // execute: 標準エラー出力（末尾を切り詰めて保存）
+  durationMs?: number;      // execute: 実行時間
+  lockedBy?: string;        // 他の実行がロックしていたため書き込めなかった場合の保持者
   success: boolean;
   error?: string;
 }
 
+export interface StepExecution {
+  step: number;          // 1始まりのステップ番号
+  type: string;          // condition | action | loop
+  content: string;
+  iteration?: number;    // ループの本体として実行された場合の反復回数
+  status: 'completed' | 'incomplete' | 'skipped' | 'failed';
+  result?: boolean;      // condition / loop: 条件の判定結果
+  output?: string;       // 後続のステップに渡した結果（切り詰めて保存）
+  turns: number;         // このステップで使った LLM ターン数
+  error?: string;
+}
+
 export interface ExecutionSummary {
   totalExecutions: number;
   successfulExecutions: number;
@@ -46,30 +86,43 @@ export interface ExecutionSummary {
   }>;
 }
 
+const STEP_STATUS_LABELS: Record<StepExecution['status'], string> = {
+  completed: '完了',
+  incomplete: '未完了',
+  skipped: 'スキップ',
+  failed: '失敗'
+};
+
 export class ExecutionHistory {
   private apiClient: ApiClient;
   private localHistoryFile: string;
   private maxLocalHistory: number = 1000; // ローカルに保存する最大履歴数
+  private localOnly: boolean;             // ルーチンをローカルに保存している場合は API を使わない
 
   constructor(apiClient: ApiClient, configDirectory: string = '.') {
     this.apiClient = apiClient;
     this.localHistoryFile = path.join(configDirectory, '.aireer-execution-history.json');
+    this.localOnly = isLocalRoutineStore();
   }
 
   /**
-   * 実行履歴をAPIとローカルの両方に記録
+   * 実行履歴をAPIとローカルの両方に記録（localOnly の場合はローカルのみ）
    */
-  async recordExecution(execution: ExecutionDetail): Promise<void> {
-    try {
-      // API に実行履歴を記録
-      await this.saveToApi(execution);
-      console.log(chalk.green('✅ 実行履歴をAPIに保存しました'));
-    } catch (error) {
-      console.log(chalk.yellow('⚠️  API への履歴保存に失敗しました（ローカルには保存されます）'));
-      console.log(chalk.gray(`   エラー: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  async recordExecution(execution: ExecutionDetail, localOnly: boolean = false): Promise<void> {
+    if (execution.dryRun || localOnly || this.localOnly) {
+      // ドライランの結果はサーバーの統計に含めずローカルにのみ保存
+      try {
+        await this.saveToLocal(execution);
+        console.log(chalk.blue(`💾 ${execution.dryRun ? 'ドライランの' : ''}実行履歴をローカルに保存しました`));
+      } catch (error) {
+        console.log(chalk.red('❌ ローカルファイルへの履歴保存に失敗しました'));
+        console.error(error);
+      }
+      return;
     }
 
     // ローカルファイルにも保存（バックアップとして）
+    // API の応答を待つ間に終了しても履歴が失われないよう先に保存する
     try {
       await this.saveToLocal(execution);
       console.log(chalk.blue('💾 実行履歴をローカルに保存しました'));
@@ -77,6 +130,15 @@ export class ExecutionHistory {
       console.log(chalk.red('❌ ローカルファイルへの履歴保存に失敗しました'));
       console.error(error);
     }
+
+    try {
+      // API に実行履歴を記録
+      await this.saveToApi(execution);
+      console.log(chalk.green('✅ 実行履歴をAPIに保存しました'));
+    } catch (error) {
+      console.log(chalk.yellow('⚠️  API への履歴保存に失敗しました（ローカルには保存されています）'));
+      console.log(chalk.gray(`   エラー: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
   }
 
   /**
@@ -129,6 +191,13 @@ export class ExecutionHistory {
    * APIから実行履歴を取得
    */
   async fetchFromApi(limit: number = 50, routineId?: string): Promise<ExecutionDetail[]> {
+    if (this.localOnly) {
+      // API に保存される履歴と同じく、ドライランは含めない
+      return this.getLocalHistory(this.maxLocalHistory)
+        .filter(h => !h.dryRun && (!routineId || h.routineId === routineId))
+        .slice(0, limit);
+    }
+
     try {
       const queryParams = new URLSearchParams();
       queryParams.append('limit', limit.toString());
@@ -176,6 +245,28 @@ export class ExecutionHistory {
     }
   }
 
+  /**
+   * ローカル履歴から指定IDの実行を取得
+   */
+  getLocalExecution(executionId: string): ExecutionDetail | undefined {
+    return this.getLocalHistory(this.maxLocalHistory).find(h => h.id === executionId);
+  }
+
+  /**
+   * ローカル履歴の実行記録を更新
+   */
+  updateLocalExecution(executionId: string, changes: Partial<ExecutionDetail>): boolean {
+    const history = this.getLocalHistory(this.maxLocalHistory);
+    const execution = history.find(h => h.id === executionId);
+    if (!execution) {
+      return false;
+    }
+
+    Object.assign(execution, changes);
+    fs.writeFileSync(this.localHistoryFile, JSON.stringify(history, null, 2));
+    return true;
+  }
+
   /**
    * 実行履歴の統計情報を取得
    */
@@ -253,10 +344,15 @@ export class ExecutionHistory {
   /**
    * 実行履歴を表示
    */
-  async displayHistory(limit: number = 20, routineId?: string): Promise<void> {
+  async displayHistory(limit: number = 20, routineId?: string, dryRunOnly: boolean = false): Promise<void> {
     console.log(chalk.blue('📊 実行履歴を取得中...'));
     
-    const history = await this.fetchFromApi(limit, routineId);
+    // ドライランの履歴はローカルにのみ保存されている
+    const history = dryRunOnly
+      ? this.getLocalHistory(this.maxLocalHistory)
+          .filter(h => h.dryRun && (!routineId || h.routineId === routineId))
+          .slice(0, limit)
+      : await this.fetchFromApi(limit, routineId);
     
     if (history.length === 0) {
       console.log(chalk.yellow('📝 実行履歴がありません'));
@@ -272,19 +368,75 @@ export class ExecutionHistory {
       
       const executedAt = new Date(execution.executedAt).toLocaleString('ja-JP');
       
-      console.log(chalk.white(`${index + 1}. ${execution.routineName} ${status}`));
+      const dryRunTag = execution.dryRun ? chalk.yellow(' [DRY RUN]') : '';
+      const rolledBackTag = execution.rolledBack ? chalk.yellow(' [ROLLED BACK]') : '';
+      
+      console.log(chalk.white(`${index + 1}. ${execution.routineName} ${status}${dryRunTag}${rolledBackTag}`));
       console.log(chalk.gray(`   実行時刻: ${executedAt}`));
       console.log(chalk.gray(`   メッセージ: ${execution.message}`));
+      if (execution.commitHash) {
+        const reverted = execution.revertCommitHash ? ` (取り消し: ${execution.revertCommitHash.substring(0, 8)})` : '';
+        console.log(chalk.gray(`   コミット: ${execution.commitHash.substring(0, 8)}${reverted}`));
+      }
+      if (execution.workspace) {
+        const merged = execution.workspace.merged ? `, マージ: ${execution.workspace.merged.length}件` : '';
+        console.log(chalk.gray(`   ワークスペース: ${execution.workspace.path} (${execution.workspace.mode}${merged})`));
+        if (execution.workspace.conflicts?.length) {
+          console.log(chalk.red(`   マージの競合: ${execution.workspace.conflicts.join(', ')}`));
+        }
+      }
       if (execution.error) {
         console.log(chalk.red(`   エラー: ${execution.error}`));
       }
+      execution.fileOperations
+        ?.filter(op => op.lockedBy)
+        .forEach(op => console.log(chalk.red(`   ロックの競合: ${op.filepath} (保持者: ${op.lockedBy})`)));
       if (execution.duration > 0) {
         console.log(chalk.gray(`   実行時間: ${execution.duration}ms`));
       }
+      if (execution.llmUsage?.calls) {
+        console.log(chalk.gray(`   LLM使用量: ${execution.llmUsage.tokens.toLocaleString()}トークン / $${execution.llmUsage.cost.toFixed(4)} (${execution.llmUsage.calls}回)`));
+      }
+      execution.stepResults?.forEach(step => {
+        const iteration = step.iteration ? ` (反復${step.iteration})` : '';
+        const result = step.result !== undefined ? ` → ${step.result}` : '';
+        const color = step.status === 'failed' ? chalk.red : step.status === 'completed' ? chalk.gray : chalk.yellow;
+        console.log(color(`   ステップ${step.step}${iteration} [${step.type}] ${STEP_STATUS_LABELS[step.status]}${result}: ${step.content.length > 60 ? `${step.content.substring(0, 60)}...` : step.content}`));
+      });
+      execution.fileOperations
+        ?.filter(op => op.type === 'execute' && op.exitCode !== undefined)
+        .forEach(op => {
+          const color = op.success ? chalk.gray : chalk.red;
+          console.log(color(`   コマンド: ${op.command} → ${this.formatCommandResult(op)}`));
+          if (!op.success) {
+            const output = (op.stderr || op.stdout || '').trim();
+            if (output) {
+              console.log(chalk.gray(this.tail(output, 500).split('\n').map(line => `     ${line}`).join('\n')));
+            }
+          }
+        });
+      if (execution.dryRun && execution.fileOperations) {
+        execution.fileOperations.forEach(op => {
+          console.log(chalk.gray(`   提案された操作: ${op.type}(${op.filepath || op.command || op.pattern || 'N/A'})`));
+          if (op.diff) {
+            printDiff(op.diff);
+          }
+        });
+      }
       console.log('');
     });
   }
 
+  private formatCommandResult(op: FileOperation): string {
+    const exit = op.exitCode === null ? '終了コードなし' : `終了コード ${op.exitCode}`;
+    const duration = op.durationMs !== undefined ? ` (${op.durationMs}ms)` : '';
+    return `${exit}${duration}${op.exitCode === null && op.error ? ` - ${op.error}` : ''}`;
+  }
+
+  private tail(text: string, maxLength: number): string {
+    return text.length > maxLength ? `...${text.slice(-maxLength)}` : text;
+  }
+
   /**
    * 実行統計を表示
    */
@@ -349,7 +501,7 @@ export class ExecutionHistory {
       // ローカル履歴から最新の実行結果を取得
       const localHistory = this.getLocalHistory(50);
       const routineHistory = localHistory
-        .filter(h => h.routineId === routineId)
+        .filter(h => h.routineId === routineId && !h.dryRun)
         .slice(0, limit);
 
       if (routineHistory.length === 0) {
@@ -392,6 +544,19 @@ export class ExecutionHistory {
             .map(op => `${op.type}(${op.filepath || op.command || 'N/A'})`)
             .join(', ');
           summary += `${operations}\n`;
+
+          // コマンドの結果（失敗したビルドやテストの出力を次の実行に活かす）
+          execution.fileOperations
+            .filter(op => op.type === 'execute' && op.exitCode !== undefined)
+            .forEach(op => {
+              summary += `   コマンド結果: ${op.command} → ${this.formatCommandResult(op)}\n`;
+              if (!op.success) {
+                const output = (op.stderr || op.stdout || '').trim();
+                if (output) {
+                  summary += `   出力（末尾）:\n${this.tail(output, 500).split('\n').map(line => `     ${line}`).join('\n')}\n`;
+                }
+              }
+            });
         }
         
         if (execution.error) {
@@ -421,6 +586,7 @@ export class ExecutionHistory {
       
       const recentExecutions = localHistory.filter(h => 
         h.routineId === routineId && 
+        !h.dryRun &&
         new Date(h.executedAt) > cutoffTime
       );
 
@@ -429,6 +595,10 @@ export class ExecutionHistory {
       recentExecutions.forEach(execution => {
         if (execution.fileOperations) {
           execution.fileOperations.forEach(op => {
+            // 読み取り系の操作は繰り返しても問題ないため除外
+            if (op.type === 'read' || op.type === 'list' || op.type === 'search') {
+              return;
+            }
             if (op.filepath) {
               fileOperations.add(`${op.type}:${op.filepath}`);
             } else if (op.command) {
@@ -0,0 +1,166 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+
+export interface FileLock {
+  filepath: string;   // ロック対象の絶対パス
+  owner: string;      // ロックを保持する実行（executionId など）
+  label?: string;     // 表示用の名前（ルーチン名など）
+  pid: number;
+  acquiredAt: string;
+}
+
+export const LOCK_DIRECTORY = '.aireer-locks';
+export const DEFAULT_LOCK_TIMEOUT_MS = 30000;
+
+const POLL_INTERVAL_MS = 250;
+const ABANDONED_LOCK_MS = 5000;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * ファイル単位の排他ロック
+ * プロセス内のすべての FileManager で共有し、別プロセスとは <lockRoot>/.aireer-locks/ のロックファイルで調整する
+ */
+export class FileLockManager {
+  private static instance: FileLockManager | undefined;
+
+  private held = new Map<string, FileLock & { lockFile: string }>();
+
+  static shared(): FileLockManager {
+    if (!FileLockManager.instance) {
+      FileLockManager.instance = new FileLockManager();
+      // 異常終了時もロックファイルを残さない
+      process.on('exit', () => FileLockManager.instance?.releaseAll());
+    }
+    return FileLockManager.instance;
+  }
+
+  /**
+   * ロックを取得する（同じ owner が保持済みなら何もしない）
+   * 他の実行が保持している間は timeoutMs まで待ち、解放されなければ例外（code: FILE_LOCKED）を投げる
+   */
+  async acquire(lockRoot: string, filepath: string, owner: string, label?: string, timeoutMs: number = DEFAULT_LOCK_TIMEOUT_MS): Promise<void> {
+    const target = path.resolve(lockRoot, filepath);
+    const deadline = Date.now() + timeoutMs;
+    let announced = false;
+
+    while (true) {
+      const holder = this.tryAcquire(lockRoot, target, owner, label);
+      if (!holder) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        const relative = path.relative(lockRoot, target);
+        const error: any = new Error(`File is locked by ${holder.label ?? holder.owner}${holder.pid && holder.pid !== process.pid ? ` (pid ${holder.pid})` : ''}: ${relative}`);
+        error.code = 'FILE_LOCKED';
+        error.lock = holder;
+        throw error;
+      }
+      if (!announced) {
+        console.log(chalk.yellow(`⏳ Waiting for ${path.relative(lockRoot, target)} (locked by ${holder.label ?? holder.owner})`));
+        announced = true;
+      }
+      await sleep(Math.min(POLL_INTERVAL_MS, Math.max(0, deadline - Date.now())));
+    }
+  }
+
+  /**
+   * owner が保持しているロックをすべて解放する
+   */
+  release(owner: string): void {
+    for (const [target, lock] of this.held) {
+      if (lock.owner === owner) {
+        this.removeLockFile(lock.lockFile);
+        this.held.delete(target);
+      }
+    }
+  }
+
+  releaseAll(): void {
+    for (const lock of this.held.values()) {
+      this.removeLockFile(lock.lockFile);
+    }
+    this.held.clear();
+  }
+
+  getHeldLocks(owner?: string): FileLock[] {
+    return [...this.held.values()]
+      .filter(lock => !owner || lock.owner === owner)
+      .map(({ lockFile, ...lock }) => lock);
+  }
+
+  /**
+   * ロックを取得できた場合は null、取得できない場合は保持者を返す
+   */
+  private tryAcquire(lockRoot: string, target: string, owner: string, label?: string): FileLock | null {
+    const existing = this.held.get(target);
+    if (existing) {
+      return existing.owner === owner ? null : existing;
+    }
+
+    const lockFile = path.join(lockRoot, LOCK_DIRECTORY, `${crypto.createHash('sha1').update(target).digest('hex')}.lock`);
+    const lock: FileLock = { filepath: target, owner, label, pid: process.pid, acquiredAt: new Date().toISOString() };
+    fs.mkdirSync(path.dirname(lockFile), { recursive: true });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        // wx: 他のプロセスが先に作成していれば EEXIST になる
+        fs.writeFileSync(lockFile, JSON.stringify(lock, null, 2), { flag: 'wx' });
+        this.held.set(target, { ...lock, lockFile });
+        return null;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // 終了したプロセスのロックは削除して取り直す（書き込み途中で読めないファイルは保持中とみなす）
+      const holder = this.readLockFile(lockFile);
+      const stale = holder ? holder.pid === process.pid || !isProcessAlive(holder.pid) : this.isAbandoned(lockFile);
+      if (!stale) {
+        return holder ?? { filepath: target, owner: 'another process', pid: 0, acquiredAt: new Date().toISOString() };
+      }
+      this.removeLockFile(lockFile);
+    }
+
+    return this.readLockFile(lockFile) ?? { filepath: target, owner: 'another process', pid: 0, acquiredAt: new Date().toISOString() };
+  }
+
+  // 内容を読めないまま一定時間が経ったロックファイルは、書き込み中に終了したプロセスのもの
+  private isAbandoned(lockFile: string): boolean {
+    try {
+      return Date.now() - fs.statSync(lockFile).mtimeMs > ABANDONED_LOCK_MS;
+    } catch (error) {
+      return true;
+    }
+  }
+
+  private readLockFile(lockFile: string): FileLock | null {
+    try {
+      return JSON.parse(fs.readFileSync(lockFile, 'utf-8'));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private removeLockFile(lockFile: string): void {
+    try {
+      fs.unlinkSync(lockFile);
+    } catch (error) {
+      // すでに削除されている場合は無視
+    }
+  }
+}
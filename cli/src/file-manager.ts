@@ -2,6 +2,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
+import { nanoid } from 'nanoid';
+import { FileLockManager } from './file-lock-manager.js';
 
 export interface FileOperation {
   type: 'create' | 'edit' | 'delete' | 'read';
@@ -18,11 +20,42 @@ export interface FileInfo {
   modified: Date;
 }
 
+export interface FileManagerOptions {
+  lockOwner?: string;     // 指定時は書き込んだファイルのロックを releaseLocks() まで保持する
+  lockLabel?: string;     // ロックの保持者として表示する名前
+  lockTimeoutMs?: number; // 他の実行が保持するロックの解放を待つ時間（0 は待たずに失敗）
+}
+
 export class FileManager {
   private baseDir: string;
+  private options: FileManagerOptions;
 
-  constructor(baseDir: string = process.cwd()) {
+  constructor(baseDir: string = process.cwd(), options: FileManagerOptions = {}) {
     this.baseDir = path.resolve(baseDir);
+    this.options = options;
+  }
+
+  /**
+   * 書き込む前にファイルのロックを取得する（lockOwner 指定時は releaseLocks() まで保持）
+   * lockOwner がない場合は他の実行が保持するロックの解放を待つだけで、ロックは保持しない
+   * 解放されないまま lockTimeoutMs が過ぎると例外（code: FILE_LOCKED）を投げる
+   */
+  async lock(filepath: string): Promise<void> {
+    const locks = FileLockManager.shared();
+    const owner = this.options.lockOwner ?? `file-manager-${nanoid(8)}`;
+    await locks.acquire(this.baseDir, filepath, owner, this.options.lockLabel, this.options.lockTimeoutMs);
+    if (!this.options.lockOwner) {
+      locks.release(owner);
+    }
+  }
+
+  /**
+   * lockOwner として保持しているロックをすべて解放する
+   */
+  releaseLocks(): void {
+    if (this.options.lockOwner) {
+      FileLockManager.shared().release(this.options.lockOwner);
+    }
   }
 
   /**
@@ -40,6 +73,7 @@ export class FileManager {
    */
   async createFile(filepath: string, content: string = '', encoding: BufferEncoding = 'utf-8'): Promise<void> {
     this.validatePath(filepath);
+    await this.lock(filepath);
     const spinner = ora(`ファイルを作成中: ${filepath}`).start();
     
     try {
@@ -64,6 +98,7 @@ export class FileManager {
    */
   async editFile(filepath: string, content: string, encoding: BufferEncoding = 'utf-8'): Promise<void> {
     this.validatePath(filepath);
+    await this.lock(filepath);
     const spinner = ora(`ファイルを編集中: ${filepath}`).start();
     
     try {
@@ -86,6 +121,7 @@ export class FileManager {
    */
   async deleteFile(filepath: string): Promise<void> {
     this.validatePath(filepath);
+    await this.lock(filepath);
     const spinner = ora(`ファイルを削除中: ${filepath}`).start();
     
     try {
@@ -160,8 +196,13 @@ export class FileManager {
 
   /**
    * ディレクトリ内のファイル一覧を取得する
+   * filter が false を返したファイルは除外し、ディレクトリはその中を走査しない
    */
-  listFiles(dirpath: string = '.', recursive: boolean = false): string[] {
+  listFiles(
+    dirpath: string = '.',
+    recursive: boolean = false,
+    filter?: (relativePath: string, isDirectory: boolean) => boolean
+  ): string[] {
     const fullPath = this.getFullPath(dirpath);
     
     if (!fs.existsSync(fullPath)) {
@@ -177,6 +218,10 @@ export class FileManager {
         const itemPath = path.join(currentPath, item);
         const relativeItemPath = path.join(relativePath, item);
         const stats = fs.statSync(itemPath);
+
+        if (filter && !filter(relativeItemPath, stats.isDirectory())) {
+          continue;
+        }
         
         if (stats.isDirectory()) {
           if (recursive) {
@@ -212,6 +257,7 @@ export class FileManager {
    * ファイルをコピーする
    */
   async copyFile(sourcePath: string, targetPath: string): Promise<void> {
+    await this.lock(targetPath);
     const spinner = ora(`ファイルをコピー中: ${sourcePath} → ${targetPath}`).start();
     
     try {
@@ -239,6 +285,8 @@ export class FileManager {
    * ファイルを移動する
    */
   async moveFile(sourcePath: string, targetPath: string): Promise<void> {
+    await this.lock(sourcePath);
+    await this.lock(targetPath);
     const spinner = ora(`ファイルを移動中: ${sourcePath} → ${targetPath}`).start();
     
     try {
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { FileOperation } from './execution-history.js';
+
+// ユーザー情報が設定されていないリポジトリでコミットする場合の作成者
+const FALLBACK_AUTHOR = ['-c', 'user.name=aireer', '-c', 'user.email=aireer@localhost'];
+
+/**
+ * git コマンドを実行し、標準出力を返す（失敗時は例外）
+ */
+export function git(args: string[], cwd: string): string {
+  const result = spawnSync('git', args, { cwd, encoding: 'utf-8' });
+  if (result.error || result.status !== 0) {
+    const command = args.find((arg, index) => arg !== '-c' && args[index - 1] !== '-c');
+    throw new Error(`git ${command} failed: ${(result.stderr || result.error?.message || '').trim()}`);
+  }
+  return result.stdout.trim();
+}
+
+export interface ExecutionCommit {
+  executionId: string;
+  routineId: string;
+  routineName: string;
+  fileOperations: FileOperation[];
+  paths: string[]; // コミットするファイル（絶対パス）
+}
+
+/**
+ * ルーチン実行ごとのコミットと取り消しを行う
+ */
+export class GitIntegration {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  static isRepository(directory: string): boolean {
+    try {
+      return git(['rev-parse', '--is-inside-work-tree'], directory) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  getCurrentBranch(): string {
+    return git(['rev-parse', '--abbrev-ref', 'HEAD'], this.directory);
+  }
+
+  /**
+   * コミット先のブランチに切り替える（存在しない場合は現在の HEAD から作成）
+   */
+  checkoutBranch(branch: string): void {
+    if (this.getCurrentBranch() === branch) {
+      return;
+    }
+    const exists = spawnSync('git', ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], { cwd: this.directory }).status === 0;
+    git(exists ? ['switch', branch] : ['switch', '-c', branch], this.directory);
+  }
+
+  /**
+   * 実行で変更されたファイルだけをコミットし、コミットハッシュを返す（変更がない場合は null）
+   */
+  commitExecution(commit: ExecutionCommit): string | null {
+    const paths = [...new Set(commit.paths.map(filepath => path.relative(this.directory, filepath)))]
+      .filter(filepath => filepath && !filepath.startsWith('..'))
+      .filter(filepath => fs.existsSync(path.join(this.directory, filepath)) || this.isTracked(filepath))
+      .filter(filepath => !this.isIgnored(filepath));
+
+    if (paths.length === 0) {
+      return null;
+    }
+
+    git(['add', '-A', '--', ...paths], this.directory);
+    const staged = git(['diff', '--cached', '--name-only', '--', ...paths], this.directory);
+    if (!staged) {
+      return null;
+    }
+
+    // pre-commit / commit-msg フックも実行する（フックが失敗した場合はステージを戻して例外）
+    const author = this.hasAuthor() ? [] : FALLBACK_AUTHOR;
+    try {
+      git([...author, 'commit', '-m', this.buildMessage(commit), '--', ...paths], this.directory);
+    } catch (error) {
+      spawnSync('git', ['reset', '-q', '--', ...paths], { cwd: this.directory });
+      throw error;
+    }
+    return git(['rev-parse', 'HEAD'], this.directory);
+  }
+
+  /**
+   * 作業ツリーで変更・追加・削除されているファイル（リポジトリのルートからの相対パス、ignore されたものを除く）
+   */
+  getChangedPaths(): string[] {
+    // git() は出力を trim するため、先頭のステータス列が空白の場合に備えて直接実行する
+    const result = spawnSync('git', ['status', '--porcelain', '-z', '--untracked-files=all'], { cwd: this.directory, encoding: 'utf-8' });
+    if (result.error || result.status !== 0) {
+      throw new Error(`git status failed: ${(result.stderr || result.error?.message || '').trim()}`);
+    }
+    const entries = result.stdout.split('\0').filter(Boolean);
+    const paths: string[] = [];
+    for (let i = 0; i < entries.length; i++) {
+      paths.push(entries[i].substring(3));
+      // リネーム・コピーは移動元のパスが続く（リネームの移動元は削除されている）
+      if (entries[i][0] === 'R') {
+        paths.push(entries[++i]);
+      } else if (entries[i][0] === 'C') {
+        i++;
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * コミットを打ち消すコミットを作成し、そのハッシュを返す
+   */
+  revert(commitHash: string): string {
+    try {
+      git(['merge-base', '--is-ancestor', commitHash, 'HEAD'], this.directory);
+    } catch {
+      throw new Error(`Commit ${commitHash.substring(0, 8)} is not on the current branch (${this.getCurrentBranch()})`);
+    }
+
+    const author = this.hasAuthor() ? [] : FALLBACK_AUTHOR;
+    try {
+      git([...author, 'revert', '--no-edit', commitHash], this.directory);
+    } catch (error) {
+      try {
+        git(['revert', '--abort'], this.directory);
+      } catch {
+        // 中断する revert がない場合は無視
+      }
+      throw error;
+    }
+    return git(['rev-parse', 'HEAD'], this.directory);
+  }
+
+  private buildMessage(commit: ExecutionCommit): string {
+    const lines = [
+      `aireer: ${commit.routineName}`,
+      '',
+      `Execution: ${commit.executionId}`,
+      `Routine: ${commit.routineId}`,
+      ''
+    ];
+
+    for (const op of commit.fileOperations) {
+      if (!op.success || ['read', 'list', 'search', 'done'].includes(op.type)) {
+        continue;
+      }
+      if (op.type === 'execute') {
+        lines.push(`- execute ${op.command}${op.exitCode !== undefined ? ` (exit ${op.exitCode})` : ''}`);
+      } else {
+        lines.push(`- ${op.type} ${op.filepath}`);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  private isTracked(filepath: string): boolean {
+    const result = spawnSync('git', ['ls-files', '--error-unmatch', '--', filepath], { cwd: this.directory });
+    return result.status === 0;
+  }
+
+  private isIgnored(filepath: string): boolean {
+    const result = spawnSync('git', ['check-ignore', '-q', '--', filepath], { cwd: this.directory });
+    return result.status === 0;
+  }
+
+  private hasAuthor(): boolean {
+    try {
+      return git(['config', 'user.email'], this.directory) !== '';
+    } catch {
+      return false;
+    }
+  }
+}
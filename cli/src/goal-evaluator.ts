@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { CommandPolicy } from './command-policy.js';
+import { FileManager } from './file-manager.js';
+import { describeWorkspace } from './workspace-scanner.js';
+
+// ルーチンの完了条件（すべて満たされたときにゴール達成）
+export type GoalCriterion =
+  | { type: 'file'; path: string }          // ファイルが存在する
+  | { type: 'command'; command: string }    // コマンドが終了コード 0 で終わる
+  | { type: 'llm'; check: string };         // 自然言語の条件を LLM が判定する
+
+export interface RoutineGoal {
+  criteria: GoalCriterion[];
+  deactivateOnComplete?: boolean; // 達成時にサーバー上のルーチンを非アクティブにする
+}
+
+export interface CriterionResult {
+  criterion: GoalCriterion;
+  met: boolean;
+  detail?: string;
+}
+
+export interface GoalProgress {
+  met: boolean;
+  results: CriterionResult[];
+  checkedAt: string;
+  completedAt?: string;
+}
+
+// LLM にプロンプトを送り、応答テキストを返す
+export type GoalJudge = (prompt: string) => Promise<string | null>;
+
+const COMMAND_TIMEOUT_MS = 60000;
+const MAX_DETAIL_LENGTH = 200;
+
+export function describeCriterion(criterion: GoalCriterion): string {
+  switch (criterion.type) {
+    case 'file':
+      return `file ${criterion.path} exists`;
+    case 'command':
+      return `command \`${criterion.command}\` exits 0`;
+    case 'llm':
+      return criterion.check;
+  }
+}
+
+/**
+ * ゴールの進捗を1行で表示する
+ */
+export function formatGoalProgress(goal: RoutineGoal, progress?: GoalProgress): string {
+  if (!progress) {
+    return `0/${goal.criteria.length} criteria met (not checked yet)`;
+  }
+  if (progress.met) {
+    return `met on ${new Date(progress.completedAt ?? progress.checkedAt).toLocaleString()}`;
+  }
+  const metCount = progress.results.filter(result => result.met).length;
+  return `${metCount}/${goal.criteria.length} criteria met (checked ${new Date(progress.checkedAt).toLocaleString()})`;
+}
+
+/**
+ * ルーチンのゴール（完了条件）がワーキングディレクトリで満たされているかを判定する
+ */
+export class GoalEvaluator {
+  private directory: string;
+  private commandPolicy: CommandPolicy;
+  private judge?: GoalJudge;
+
+  constructor(directory: string, commandPolicy: CommandPolicy, judge?: GoalJudge) {
+    this.directory = path.resolve(directory);
+    this.commandPolicy = commandPolicy;
+    this.judge = judge;
+  }
+
+  async evaluate(goal: RoutineGoal): Promise<GoalProgress> {
+    const results: CriterionResult[] = [];
+    for (const criterion of goal.criteria) {
+      results.push(await this.evaluateCriterion(criterion));
+    }
+
+    const checkedAt = new Date().toISOString();
+    const met = results.length > 0 && results.every(result => result.met);
+    return { met, results, checkedAt, completedAt: met ? checkedAt : undefined };
+  }
+
+  private async evaluateCriterion(criterion: GoalCriterion): Promise<CriterionResult> {
+    switch (criterion.type) {
+      case 'file':
+        return this.checkFile(criterion);
+      case 'command':
+        return this.checkCommand(criterion);
+      case 'llm':
+        return this.checkWithLLM(criterion);
+    }
+  }
+
+  private checkFile(criterion: { type: 'file'; path: string }): CriterionResult {
+    const target = path.resolve(this.directory, criterion.path);
+    const relative = path.relative(this.directory, target);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return { criterion, met: false, detail: 'Path is outside the working directory' };
+    }
+    return { criterion, met: fs.existsSync(target) };
+  }
+
+  private checkCommand(criterion: { type: 'command'; command: string }): CriterionResult {
+    // ゴール判定中は確認を求めないため、ポリシーで許可されたコマンドだけを実行する
+    const decision = this.commandPolicy.evaluate(criterion.command);
+    if (decision.action !== 'allow') {
+      return { criterion, met: false, detail: `Not run: command policy returned ${decision.action}${decision.reason ? ` (${decision.reason})` : ''}` };
+    }
+
+    const result = spawnSync(criterion.command, {
+      shell: true,
+      encoding: 'utf-8',
+      cwd: this.directory,
+      timeout: COMMAND_TIMEOUT_MS
+    });
+    if (result.error) {
+      return { criterion, met: false, detail: result.error.message };
+    }
+    if (result.status === 0) {
+      return { criterion, met: true };
+    }
+    const output = `${result.stderr || result.stdout || ''}`.trim();
+    return { criterion, met: false, detail: `exit ${result.status}${output ? `: ${output.slice(-MAX_DETAIL_LENGTH)}` : ''}` };
+  }
+
+  private async checkWithLLM(criterion: { type: 'llm'; check: string }): Promise<CriterionResult> {
+    if (!this.judge) {
+      return { criterion, met: false, detail: 'No LLM available to judge this criterion' };
+    }
+
+    const listing = describeWorkspace(new FileManager(this.directory), this.directory);
+    const prompt = `Judge whether the following condition is satisfied by the current state of the working directory.
+
+Condition: ${criterion.check}
+
+Current directory state:
+${listing}
+
+Return only JSON in the following format: {"met": true|false, "reason": "<one sentence>"}`;
+
+    const response = await this.judge(prompt);
+    const jsonStart = response?.indexOf('{') ?? -1;
+    const jsonEnd = response?.lastIndexOf('}') ?? -1;
+    if (!response || jsonStart === -1 || jsonEnd <= jsonStart) {
+      return { criterion, met: false, detail: 'No valid judgement received from the LLM' };
+    }
+
+    try {
+      const judgement = JSON.parse(response.substring(jsonStart, jsonEnd + 1));
+      return { criterion, met: judgement.met === true, detail: typeof judgement.reason === 'string' ? judgement.reason : undefined };
+    } catch {
+      return { criterion, met: false, detail: 'No valid judgement received from the LLM' };
+    }
+  }
+}
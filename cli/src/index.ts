@@ -7,7 +7,7 @@ import { runParallelRequests } from './parallel.js';
 import { setupInteractiveMode } from './interactive.js';
 import { startAutonomousMode } from './autonomous-mode.js';
 import { RoutineManager } from './routine-manager.js';
-import { RoutineCreator } from './routine-creator.js';
+import { RoutineCreator, DUPLICATE_ACTIONS } from './routine-creator.js';
 import { displayLogo, displayCompactLogo } from './logo.js';
 import { AuthManager } from './auth-manager.js';
 import { ConfigManager } from './config-manager.js';
@@ -53,6 +53,62 @@ function getPackageVersion(): string {
   }
 }
 
+// Authenticate for the configured LLM mode (API or Gemini direct); throws when it is not usable
+async function prepareLLM(apiUrl: string) {
+  const authManager = new AuthManager(apiUrl);
+  const configManager = authManager.getConfigManager();
+  
+  // LLMモードに応じた認証チェック
+  const llmMode = configManager.getLLMMode();
+  const useGeminiDirect = llmMode === 'gemini-direct';
+  
+  if (!useGeminiDirect) {
+    // Authentication required for API mode
+    if (!(await authManager.ensureAuthenticated())) {
+      throw new Error('Authentication required. Please login with "aireer login".');
+    }
+  } else {
+    // API key required for Gemini direct mode
+    if (!configManager.isGeminiConfigured()) {
+      throw new Error('Gemini API key is not set. Please set the API key with: aireer config --gemini-guide');
+    }
+  }
+  
+  let geminiClient;
+  if (useGeminiDirect) {
+    let connectionOk;
+    try {
+      const { GeminiClient } = await import('./gemini-client.js');
+      const apiKey = configManager.getGeminiApiKey()!;
+      geminiClient = new GeminiClient(apiKey);
+      
+      console.log(chalk.blue('🔍 Checking Gemini API connection...'));
+      connectionOk = await geminiClient.testConnection();
+    } catch (error: any) {
+      throw new Error(`Failed to initialize Gemini client: ${error.message ?? error}`);
+    }
+    if (!connectionOk) {
+      throw new Error('Cannot connect to Gemini API. Please check your API key.');
+    }
+  }
+
+  return { authManager, useGeminiDirect, geminiClient };
+}
+
+// Routines stored in the aireer API need a login; local routine files do not
+async function ensureRoutineAccess(authManager: AuthManager): Promise<void> {
+  if (authManager.getConfigManager().getRoutineStore() === 'local') {
+    return;
+  }
+  if (!(await authManager.ensureAuthenticated())) {
+    console.log(chalk.red('❌ Authentication required. Please login with "aireer login".'));
+    process.exit(1);
+  }
+}
+
+// Collects repeatable options into an array
+const collect = (value: string, previous: string[]) => [...previous, value];
+
 program
   .name('aireer')
   .description('CLI tool for the fully autonomous AI service "aireer"')
@@ -99,6 +155,8 @@ program
   .option('--gemini-key <key>', 'Set Gemini API key')
   .option('--gemini-test', 'Test Gemini API connection')
   .option('--gemini-guide', 'Display Gemini API setup guide')
+  .option('--routine-store <store>', 'Where routines are stored (api | local)')
+  .option('--routine-dir <directory>', 'Directory of routine files for the local store, relative to the working directory')
   .action(async (options: any) => {
     displayCompactLogo();
     const configManager = new ConfigManager();
@@ -125,6 +183,24 @@ program
       }
     }
     
+    // ルーチンの保存先設定
+    if (options.routineStore) {
+      const { ROUTINE_STORE_MODES } = await import('./routine-store.js');
+      if (!ROUTINE_STORE_MODES.includes(options.routineStore)) {
+        console.log(chalk.red(`❌ Invalid routine store. Please specify one of: ${ROUTINE_STORE_MODES.join(', ')}`));
+        return;
+      }
+      configManager.setRoutineStore(options.routineStore);
+      console.log(chalk.green(`✅ Routine store set to "${options.routineStore}"`));
+      if (options.routineStore === 'local') {
+        console.log(chalk.gray(`   Routines are read from ${options.routineDir ?? configManager.getRoutineDirectory()}/*.json|yaml and no aireer login is needed`));
+      }
+    }
+    if (options.routineDir) {
+      configManager.setRoutineDirectory(options.routineDir);
+      console.log(chalk.green(`✅ Routine directory set to "${options.routineDir}"`));
+    }
+
     // Gemini APIキー設定
     if (options.geminiKey) {
       const { GeminiClient } = await import('./gemini-client.js');
@@ -182,7 +258,7 @@ program
     }
     
     // デフォルト動作: 設定表示
-    if (!options.llmMode && !options.geminiKey && !options.geminiTest) {
+    if (!options.llmMode && !options.geminiKey && !options.geminiTest && !options.routineStore && !options.routineDir) {
       configManager.displayConfig();
     }
   });
@@ -197,50 +273,31 @@ program
   .option('-i, --interval <seconds>', 'Execution cycle interval (seconds)', '60')
   .option('-e, --llm-endpoint <endpoint>', 'LLM endpoint', '/api/llm/generate')
   .option('-m, --max-executions <number>', 'Maximum executions per cycle', '3')
+  .option('-s, --max-steps <number>', 'Maximum LLM turns (observe/act steps) per routine execution, or per step for routines with steps', '5')
+  .option('--dry-run', 'Plan mode - show and record proposed operations without changing files or running commands')
+  .option('--context-tokens <number>', 'Token budget for the workspace file listing in the prompt', '2000')
+  .option('--shutdown-timeout <seconds>', 'Seconds to wait for running routines after Ctrl+C', '60')
+  .option('--isolation <mode>', 'Run each routine in its own workspace (none | subdirectory | copy | worktree)', 'none')
+  .option('--no-merge', 'Keep isolated copies/worktrees instead of merging them into the working directory')
+  .option('--git-commit', 'Commit each successful execution in a git repository (repository hooks run as usual)')
+  .option('--git-branch <branch>', 'Commit executions to this branch (implies --git-commit; created from HEAD if missing)')
+  .option('--lock-timeout <seconds>', 'Seconds to wait for a file locked by another routine before failing (0 = fail immediately)', '30')
   .action(async (options: any) => {
-    const authManager = new AuthManager(options.apiUrl);
-    const configManager = authManager.getConfigManager();
-    
-    // LLMモードに応じた認証チェック
-    const llmMode = configManager.getLLMMode();
-    const useGeminiDirect = llmMode === 'gemini-direct';
-    
-    if (!useGeminiDirect) {
-      // Authentication required for API mode
-      if (!(await authManager.ensureAuthenticated())) {
-        console.log(chalk.red('❌ Authentication required. Please login with "aireer login".'));
-        process.exit(1);
-      }
-    } else {
-      // API key required for Gemini direct mode
-      if (!configManager.isGeminiConfigured()) {
-        console.log(chalk.red('❌ Gemini API key is not set.'));
-        console.log(chalk.cyan('Please set the API key with the following command:'));
-        console.log(chalk.gray('aireer config --gemini-guide'));
-        process.exit(1);
-      }
+    const { ISOLATION_MODES } = await import('./workspace-isolation.js');
+    if (!ISOLATION_MODES.includes(options.isolation)) {
+      console.log(chalk.red(`❌ Invalid isolation mode. Please specify one of: ${ISOLATION_MODES.join(', ')}`));
+      process.exit(1);
     }
 
     displayLogo();
-    
-    let geminiClient;
-    if (useGeminiDirect) {
-      try {
-        const { GeminiClient } = await import('./gemini-client.js');
-        const apiKey = configManager.getGeminiApiKey()!;
-        geminiClient = new GeminiClient(apiKey);
-        
-        console.log(chalk.blue('🔍 Checking Gemini API connection...'));
-        const connectionOk = await geminiClient.testConnection();
-        if (!connectionOk) {
-          console.log(chalk.red('❌ Cannot connect to Gemini API. Please check your API key.'));
-          process.exit(1);
-        }
-      } catch (error) {
-        console.log(chalk.red('❌ Failed to initialize Gemini client:'), error);
-        process.exit(1);
-      }
+    let llm;
+    try {
+      llm = await prepareLLM(options.apiUrl);
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
     }
+    const { authManager, useGeminiDirect, geminiClient } = llm;
     
     await startAutonomousMode({
       apiUrl: options.apiUrl,
@@ -248,10 +305,472 @@ program
       interval: parseInt(options.interval),
       llmEndpoint: options.llmEndpoint,
       maxExecutionsPerCycle: parseInt(options.maxExecutions),
+      maxSteps: parseInt(options.maxSteps),
+      dryRun: options.dryRun === true,
+      contextTokens: parseInt(options.contextTokens),
+      shutdownTimeout: parseInt(options.shutdownTimeout),
+      isolation: options.isolation,
+      merge: options.merge,
+      gitCommit: options.gitCommit,
+      gitBranch: options.gitBranch,
+      lockTimeout: parseInt(options.lockTimeout),
+      authManager,
+      useGeminiDirect,
+      geminiClient
+    });
+  });
+
+// Single routine execution (CI jobs, make targets, git hooks)
+program
+  .command('run <routine>')
+  .description('Execute one routine (ID or name) once and exit non-zero if it fails')
+  .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .option('-e, --llm-endpoint <endpoint>', 'LLM endpoint', '/api/llm/generate')
+  .option('-s, --max-steps <number>', 'Maximum LLM turns (observe/act steps) for the execution, or per step for routines with steps', '5')
+  .option('--dry-run', 'Plan mode - show and record proposed operations without changing files or running commands')
+  .option('--context-tokens <number>', 'Token budget for the workspace file listing in the prompt', '2000')
+  .option('--shutdown-timeout <seconds>', 'Seconds to wait for the execution after Ctrl+C', '60')
+  .option('--isolation <mode>', 'Run the routine in its own workspace (none | subdirectory | copy | worktree)', 'none')
+  .option('--no-merge', 'Keep an isolated copy/worktree instead of merging it into the working directory')
+  .option('--git-commit', 'Commit a successful execution in a git repository (repository hooks run as usual)')
+  .option('--git-branch <branch>', 'Commit the execution to this branch (implies --git-commit; created from HEAD if missing)')
+  .option('--lock-timeout <seconds>', 'Seconds to wait for a file locked by another routine before failing (0 = fail immediately)', '30')
+  .option('--var <name=value>', 'Value of a routine variable, referenced in steps as {{name}} (repeatable)', collect, [])
+  .option('--vars-file <file>', 'JSON or YAML file with routine variable values')
+  .option('--json', 'Print the execution result as JSON on stdout (progress output goes to stderr)')
+  .action(async (routineRef: string, options: any) => {
+    const { ISOLATION_MODES } = await import('./workspace-isolation.js');
+    if (!ISOLATION_MODES.includes(options.isolation)) {
+      console.error(chalk.red(`❌ Invalid isolation mode. Please specify one of: ${ISOLATION_MODES.join(', ')}`));
+      process.exit(2);
+    }
+
+    // Values from --var take precedence over the variables file and AIREER_VAR_<NAME> environment variables
+    const { parseVariableAssignments, loadVariablesFile } = await import('./routine-variables.js');
+    let variables;
+    try {
+      variables = {
+        cli: parseVariableAssignments(options.var),
+        file: options.varsFile ? loadVariablesFile(options.varsFile) : undefined
+      };
+    } catch (error: any) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(2);
+    }
+
+    // Keep stdout for the JSON result only
+    const printResult = console.log;
+    if (options.json) {
+      console.log = console.error;
+    } else {
+      displayCompactLogo();
+    }
+
+    // Setup failures mean the routine could not be run (exit code 2), reported as JSON with --json
+    let llm;
+    try {
+      llm = await prepareLLM(options.apiUrl);
+    } catch (error: any) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      if (options.json) {
+        printResult(JSON.stringify({ exitCode: 2, success: false, error: error.message }, null, 2));
+      }
+      process.exit(2);
+    }
+    const { authManager, useGeminiDirect, geminiClient } = llm;
+    const { runRoutine } = await import('./autonomous-mode.js');
+    const detail = await runRoutine(routineRef, {
+      apiUrl: options.apiUrl,
+      directory: options.directory,
+      llmEndpoint: options.llmEndpoint,
+      maxSteps: parseInt(options.maxSteps),
+      dryRun: options.dryRun === true,
+      contextTokens: parseInt(options.contextTokens),
+      shutdownTimeout: parseInt(options.shutdownTimeout),
+      isolation: options.isolation,
+      merge: options.merge,
+      gitCommit: options.gitCommit,
+      gitBranch: options.gitBranch,
+      lockTimeout: parseInt(options.lockTimeout),
+      variables,
       authManager,
       useGeminiDirect,
       geminiClient
     });
+
+    // 0: success, 1: the execution failed, 2: the routine could not be run
+    const exitCode = !detail ? 2 : detail.success ? 0 : 1;
+    if (options.json) {
+      printResult(JSON.stringify({
+        exitCode,
+        ...(detail ? {
+          executionId: detail.id,
+          routineId: detail.routineId,
+          routineName: detail.routineName,
+          success: detail.success,
+          message: detail.message,
+          error: detail.error,
+          errorType: detail.errorType,
+          duration: detail.duration,
+          executedAt: detail.executedAt,
+          dryRun: detail.dryRun ?? false,
+          rolledBack: detail.rolledBack ?? false,
+          commitHash: detail.commitHash,
+          workspace: detail.workspace,
+          llmUsage: detail.llmUsage,
+          variables: detail.systemContext?.variables,
+          stepResults: detail.stepResults,
+          fileOperations: detail.fileOperations
+        } : { success: false, error: `Routine could not be run: ${routineRef}` })
+      }, null, 2));
+    } else if (detail) {
+      const summary = `${detail.routineName} (${detail.id}) in ${(detail.duration / 1000).toFixed(1)}s`;
+      console.log(detail.success ? chalk.green(`\n✅ Succeeded: ${summary}`) : chalk.red(`\n❌ Failed: ${summary} - ${detail.error}`));
+    }
+    process.exit(exitCode);
+  });
+
+// Circuit breaker (anomaly detection) management
+program
+  .command('breaker')
+  .description('Show circuit breaker status, resume halted/paused execution or change thresholds')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .option('--show', 'Display circuit breaker status and thresholds')
+  .option('--resume [routineId]', 'Resume a paused routine, or the whole autonomous mode if no ID is given')
+  .option('--set <name:value>', 'Set a threshold (e.g., maxConsecutiveFailures:5)')
+  .action(async (options: any) => {
+    displayCompactLogo();
+    const { CircuitBreaker } = await import('./circuit-breaker.js');
+    const circuitBreaker = new CircuitBreaker(options.directory);
+
+    if (options.resume) {
+      const routineId = typeof options.resume === 'string' ? options.resume : undefined;
+      const resumed = circuitBreaker.resume(routineId);
+      if (resumed.length === 0) {
+        console.log(chalk.yellow(routineId ? `⚠️  Routine ${routineId} is not paused` : '⚠️  Nothing to resume'));
+      } else {
+        console.log(chalk.green(`✅ Resumed: ${resumed.join(', ')}`));
+      }
+      return;
+    }
+
+    if (options.set) {
+      const [name, value] = options.set.split(':');
+      if (name && value && circuitBreaker.setSetting(name, parseFloat(value))) {
+        console.log(chalk.green(`✅ Set ${name} to ${value}`));
+      } else {
+        console.log(chalk.red('❌ Invalid threshold. Example: --set maxConsecutiveFailures:5'));
+        console.log(chalk.gray(`   Available: ${Object.keys(circuitBreaker.getSettings()).join(', ')}`));
+      }
+      return;
+    }
+
+    circuitBreaker.displayStatus();
+  });
+
+// LLM token and cost budget management
+program
+  .command('budget')
+  .description('Show LLM usage against the token and cost budgets, or change the limits')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .option('--show', 'Display today\'s usage and the limits')
+  .option('--set <name:value>', 'Set a limit, 0 for unlimited (e.g., maxTokensPerDay:200000)')
+  .action(async (options: any) => {
+    displayCompactLogo();
+    const { BudgetManager } = await import('./budget-manager.js');
+    const budgetManager = new BudgetManager(options.directory);
+
+    if (options.set) {
+      const [name, value] = options.set.split(':');
+      if (name && value && budgetManager.setSetting(name, parseFloat(value))) {
+        console.log(chalk.green(`✅ Set ${name} to ${value}`));
+      } else {
+        console.log(chalk.red('❌ Invalid limit. Example: --set maxTokensPerDay:200000'));
+        console.log(chalk.gray(`   Available: ${Object.keys(budgetManager.getSettings()).join(', ')}`));
+      }
+      return;
+    }
+
+    budgetManager.displayStatus();
+  });
+
+// Command policy management
+const policyCommand = program
+  .command('policy')
+  .description('Inspect the command policy applied to routine commands');
+
+policyCommand
+  .command('test <command>')
+  .description('Show how a command would be evaluated by the command policy')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .action(async (command: string, options: any) => {
+    displayCompactLogo();
+    const { CommandPolicy } = await import('./command-policy.js');
+    const commandPolicy = new CommandPolicy(options.directory);
+    const decision = commandPolicy.evaluate(command);
+    commandPolicy.displayDecision(decision);
+    if (decision.action === 'deny') {
+      process.exit(1);
+    }
+  });
+
+policyCommand
+  .command('show')
+  .description('List the active command policy rules')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .action(async (options: any) => {
+    displayCompactLogo();
+    const { CommandPolicy } = await import('./command-policy.js');
+    new CommandPolicy(options.directory).displayRules();
+  });
+
+// Isolated workspace management
+const workspaceCommand = program
+  .command('workspace')
+  .description('Manage isolated routine workspaces that were kept instead of merged');
+
+workspaceCommand
+  .command('list')
+  .description('List workspaces that were not merged or had merge conflicts')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .action(async (options: any) => {
+    displayCompactLogo();
+    const { IsolatedWorkspace } = await import('./workspace-isolation.js');
+    const workspaces = IsolatedWorkspace.list(options.directory);
+
+    if (workspaces.length === 0) {
+      console.log(chalk.yellow('📝 No workspaces are waiting to be merged'));
+      return;
+    }
+    workspaces.forEach(workspace => {
+      console.log(chalk.white(`${workspace.executionId}  ${workspace.routineName} (${workspace.mode})`));
+      console.log(chalk.gray(`   Created: ${new Date(workspace.createdAt).toLocaleString()}  |  Path: ${workspace.path}`));
+    });
+  });
+
+workspaceCommand
+  .command('merge <executionId>')
+  .description('Merge a kept workspace into the working directory')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .action(async (executionId: string, options: any) => {
+    displayCompactLogo();
+    const { IsolatedWorkspace } = await import('./workspace-isolation.js');
+    const { SnapshotManager } = await import('./snapshot-manager.js');
+
+    const workspace = IsolatedWorkspace.load(options.directory, executionId);
+    if (!workspace) {
+      console.log(chalk.red(`❌ No workspace found for execution ${executionId}`));
+      process.exit(1);
+    }
+
+    const snapshots = new SnapshotManager(options.directory, `${executionId}-merge`);
+    const { merged, conflicts } = workspace.merge(snapshots);
+    if (snapshots.hasEntries()) {
+      snapshots.complete();
+    }
+
+    console.log(chalk.green(`✅ Merged ${merged.length} file(s)`));
+    merged.forEach(filepath => console.log(chalk.gray(`   ${filepath}`)));
+    if (snapshots.hasEntries()) {
+      console.log(chalk.gray(`↩️  Undo this merge with: aireer rollback ${executionId}-merge -d ${options.directory}`));
+    }
+
+    if (conflicts.length > 0) {
+      console.log(chalk.red(`⚠️  ${conflicts.length} file(s) were also changed in the working directory and were not merged:`));
+      conflicts.forEach(filepath => console.log(chalk.gray(`   ${filepath}`)));
+      console.log(chalk.gray(`   Resolve them manually from ${workspace.getPath()}, then run: aireer workspace discard ${executionId}`));
+      process.exit(1);
+    }
+    workspace.discard();
+  });
+
+workspaceCommand
+  .command('discard <executionId>')
+  .description('Delete a kept workspace without merging it')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .action(async (executionId: string, options: any) => {
+    displayCompactLogo();
+    const { IsolatedWorkspace } = await import('./workspace-isolation.js');
+
+    const workspace = IsolatedWorkspace.load(options.directory, executionId);
+    if (!workspace) {
+      console.log(chalk.red(`❌ No workspace found for execution ${executionId}`));
+      process.exit(1);
+    }
+    workspace.discard();
+    console.log(chalk.green(`✅ Discarded workspace of execution ${executionId}`));
+  });
+
+// Roll back the file changes of a completed execution
+program
+  .command('rollback <executionId>')
+  .description('Undo the file changes of a completed routine execution using its snapshot')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .option('-f, --force', 'Restore even if files were modified after the execution')
+  .action(async (executionId: string, options: any) => {
+    displayCompactLogo();
+    const { SnapshotManager, printUnrestoredCommands } = await import('./snapshot-manager.js');
+    const { ApiClient } = await import('./api-client.js');
+    const { ExecutionHistory } = await import('./execution-history.js');
+
+    const snapshot = SnapshotManager.load(options.directory, executionId);
+    if (!snapshot) {
+      console.log(chalk.red(`❌ No snapshot found for execution ${executionId}`));
+      console.log(chalk.gray('   Snapshots are kept only for successful executions that changed files with file operations (not with commands)'));
+      process.exit(1);
+    }
+
+    const manifest = snapshot.getManifest();
+    if (manifest.rolledBackAt) {
+      console.log(chalk.yellow(`⚠️  Execution ${executionId} was already rolled back at ${new Date(manifest.rolledBackAt).toLocaleString()}`));
+      return;
+    }
+
+    const { restored, conflicts } = snapshot.restore(options.force === true);
+    if (conflicts.length > 0) {
+      console.log(chalk.red('❌ The following files were modified after the execution:'));
+      conflicts.forEach(filepath => console.log(chalk.gray(`   ${filepath}`)));
+      console.log(chalk.yellow('   Use --force to overwrite them with the pre-execution state'));
+      process.exit(1);
+    }
+
+    const executionHistory = new ExecutionHistory(new ApiClient(new ConfigManager().getApiUrl()), options.directory);
+    executionHistory.updateLocalExecution(executionId, { rolledBack: true });
+
+    console.log(chalk.green(`✅ Rolled back execution ${executionId} (${restored.length} file(s) restored)`));
+    restored.forEach(filepath => console.log(chalk.gray(`   ${filepath}`)));
+    printUnrestoredCommands(snapshot.getCommands());
+  });
+
+// Revert the git commit of an execution
+program
+  .command('undo [executionId]')
+  .description('Revert the git commit created by a routine execution (default: the latest one)')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .action(async (executionId: string | undefined, options: any) => {
+    displayCompactLogo();
+    const { GitIntegration } = await import('./git-integration.js');
+    const { ApiClient } = await import('./api-client.js');
+    const { ExecutionHistory } = await import('./execution-history.js');
+
+    if (!GitIntegration.isRepository(options.directory)) {
+      console.log(chalk.red('❌ The working directory is not a git repository'));
+      process.exit(1);
+    }
+
+    const executionHistory = new ExecutionHistory(new ApiClient(new ConfigManager().getApiUrl()), options.directory);
+    const execution = executionId
+      ? executionHistory.getLocalExecution(executionId)
+      : executionHistory.getLocalHistory(1000).find(h => h.commitHash && !h.revertCommitHash);
+
+    if (!execution?.commitHash) {
+      console.log(chalk.red(executionId ? `❌ Execution ${executionId} has no commit` : '❌ No committed execution to undo'));
+      process.exit(1);
+    }
+    if (execution.revertCommitHash) {
+      console.log(chalk.yellow(`⚠️  Execution ${execution.id} was already reverted by ${execution.revertCommitHash.substring(0, 8)}`));
+      return;
+    }
+
+    try {
+      const revertCommitHash = new GitIntegration(options.directory).revert(execution.commitHash);
+      executionHistory.updateLocalExecution(execution.id, { revertCommitHash, rolledBack: true });
+      console.log(chalk.green(`✅ Reverted ${execution.routineName} (${execution.id}): ${execution.commitHash.substring(0, 8)} → ${revertCommitHash.substring(0, 8)}`));
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Failed to revert: ${error.message}`));
+      process.exit(1);
+    }
+  });
+
+// Prompt template management
+const promptCommand = program
+  .command('prompt')
+  .description('Customize and inspect the prompt templates sent to the LLM');
+
+promptCommand
+  .command('render <routineId>')
+  .description('Show the first prompt that would be sent for a routine')
+  .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .option('-s, --max-steps <number>', 'Maximum LLM turns per routine execution, or per step for routines with steps', '5')
+  .option('--context-tokens <number>', 'Token budget for the workspace file listing in the prompt', '2000')
+  .action(async (routineId: string, options: any) => {
+    const authManager = new AuthManager(options.apiUrl);
+
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
+
+    displayCompactLogo();
+    const { ApiClient } = await import('./api-client.js');
+    const { ExecutionHistory } = await import('./execution-history.js');
+    const { FileManager } = await import('./file-manager.js');
+    const { describeWorkspace } = await import('./workspace-scanner.js');
+    const { buildRoutinePrompt } = await import('./prompt-templates.js');
+
+    const apiClient = new ApiClient(options.apiUrl);
+    const routineManager = new RoutineManager(options.apiUrl, options.directory, authManager);
+
+    let routine;
+    try {
+      routine = await routineManager.getRoutineStore().getRoutine(routineId);
+    } catch (error) {
+      routine = null;
+    }
+    if (!routine) {
+      console.log(chalk.red(`❌ Routine ${routineId} not found`));
+      process.exit(1);
+    }
+
+    const { prompt, template, unknownVariables } = await buildRoutinePrompt(routine, {
+      directory: options.directory,
+      executionHistory: new ExecutionHistory(apiClient, options.directory),
+      maxOperations: routineManager.getMaxOperationsPerResponse(routine.id),
+      maxSteps: parseInt(options.maxSteps),
+      directoryState: describeWorkspace(new FileManager(options.directory), options.directory, { tokenBudget: parseInt(options.contextTokens) }),
+      goal: routineManager.getGoal(routine.id),
+      goalProgress: routineManager.getGoalProgress(routine.id)
+    });
+
+    console.log(chalk.blue(`📝 Template: ${template.source}${template.path ? ` (${template.path})` : ''}`));
+    console.log(chalk.gray('━'.repeat(30)));
+    console.log(prompt);
+    console.log(chalk.gray('━'.repeat(30)));
+    if (unknownVariables.length > 0) {
+      console.log(chalk.yellow(`⚠️  Unknown variables rendered as empty: ${unknownVariables.join(', ')}`));
+    }
+  });
+
+promptCommand
+  .command('init')
+  .description('Write the built-in template to a file so it can be customized')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .option('-t, --template <name>', 'Template to write (routine | llm-mode)', 'routine')
+  .option('-r, --routine <routineId>', 'Override the template for a single routine')
+  .option('-g, --global', 'Override the template for every project (~/.aireer-templates)')
+  .option('-f, --force', 'Overwrite an existing template file')
+  .action(async (options: any) => {
+    displayCompactLogo();
+    const fs = await import('fs');
+    const path = await import('path');
+    const { TEMPLATE_NAMES, getTemplatePaths, getBuiltinTemplate } = await import('./prompt-templates.js');
+
+    if (!TEMPLATE_NAMES.includes(options.template)) {
+      console.log(chalk.red(`❌ Invalid template. Choose one of: ${TEMPLATE_NAMES.join(', ')}`));
+      process.exit(1);
+    }
+
+    const source = options.global ? 'global' : options.routine ? 'routine' : 'project';
+    const target = getTemplatePaths(options.template, options.directory, options.routine).find(candidate => candidate.source === source)!;
+    if (fs.existsSync(target.path) && !options.force) {
+      console.log(chalk.yellow(`⚠️  ${target.path} already exists (use --force to overwrite)`));
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(target.path), { recursive: true });
+    fs.writeFileSync(target.path, getBuiltinTemplate(options.template));
+    console.log(chalk.green(`✅ Wrote the ${options.template} template to ${target.path}`));
+    console.log(chalk.gray('   Edit it and check the result with: aireer prompt render <routineId>'));
   });
 
 // Thought routine management commands
@@ -273,11 +792,8 @@ routineCommand
   .action(async (options: any) => {
     const authManager = new AuthManager(options.apiUrl);
     
-    // Authentication check
-    if (!(await authManager.ensureAuthenticated())) {
-      console.log(chalk.red('❌ Authentication required. Please login with "aireer login".'));
-      process.exit(1);
-    }
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
 
     displayCompactLogo();
     const routineCreator = new RoutineCreator(options.apiUrl, authManager);
@@ -302,18 +818,16 @@ routineCommand
   .command('list')
   .description('Display list of registered thought routines')
   .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-d, --directory <directory>', 'Working directory (for goal progress)', '.')
   .action(async (options: any) => {
     const authManager = new AuthManager(options.apiUrl);
     
-    // Authentication check
-    if (!(await authManager.ensureAuthenticated())) {
-      console.log(chalk.red('❌ Authentication required. Please login with "aireer login".'));
-      process.exit(1);
-    }
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
 
     displayCompactLogo();
-    const routineCreator = new RoutineCreator(options.apiUrl, authManager);
-    await routineCreator.listRoutines();
+    const routineCreator = new RoutineCreator(options.apiUrl, authManager, options.directory);
+    await routineCreator.listRoutines(new RoutineManager(options.apiUrl, options.directory, authManager));
   });
 
 // Display execution history
@@ -323,14 +837,12 @@ routineCommand
   .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
   .option('-l, --limit <number>', 'Number of history entries to display', '20')
   .option('-r, --routine-id <id>', 'Filter by specific routine ID')
+  .option('--dry-runs', 'Display dry-run executions (stored locally) with proposed diffs')
   .action(async (options: any) => {
     const authManager = new AuthManager(options.apiUrl);
     
-    // Authentication check
-    if (!(await authManager.ensureAuthenticated())) {
-      console.log(chalk.red('❌ Authentication required. Please login with "aireer login".'));
-      process.exit(1);
-    }
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
 
     displayCompactLogo();
     const { ApiClient } = await import('./api-client.js');
@@ -343,7 +855,7 @@ routineCommand
     }
     
     const executionHistory = new ExecutionHistory(apiClient);
-    await executionHistory.displayHistory(parseInt(options.limit), options.routineId);
+    await executionHistory.displayHistory(parseInt(options.limit), options.routineId, options.dryRuns === true);
   });
 
 // Display execution statistics
@@ -355,11 +867,8 @@ routineCommand
   .action(async (options: any) => {
     const authManager = new AuthManager(options.apiUrl);
     
-    // Authentication check
-    if (!(await authManager.ensureAuthenticated())) {
-      console.log(chalk.red('❌ Authentication required. Please login with "aireer login".'));
-      process.exit(1);
-    }
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
 
     displayCompactLogo();
     const { ApiClient } = await import('./api-client.js');
@@ -375,6 +884,26 @@ routineCommand
     await executionHistory.displaySummary(parseInt(options.days));
   });
 
+// Edit an existing routine (shows a diff before saving)
+routineCommand
+  .command('edit [routineId]')
+  .description('Edit the name, description, active flag and steps of a routine')
+  .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-e, --editor', 'Edit the routine as YAML in $VISUAL / $EDITOR instead of prompts')
+  .option('-y, --yes', 'Save without confirmation')
+  .action(async (routineId: string | undefined, options: any) => {
+    const authManager = new AuthManager(options.apiUrl);
+
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
+
+    displayCompactLogo();
+    const routineCreator = new RoutineCreator(options.apiUrl, authManager);
+    if (!await routineCreator.editRoutine(routineId, { editor: options.editor, yes: options.yes })) {
+      process.exit(1);
+    }
+  });
+
 // Delete routine
 routineCommand
   .command('delete')
@@ -388,11 +917,8 @@ routineCommand
   .action(async (options: any) => {
     const authManager = new AuthManager(options.apiUrl);
     
-    // Authentication check
-    if (!(await authManager.ensureAuthenticated())) {
-      console.log(chalk.red('❌ Authentication required. Please login with "aireer login".'));
-      process.exit(1);
-    }
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
 
     displayCompactLogo();
     const routineCreator = new RoutineCreator(options.apiUrl, authManager);
@@ -400,6 +926,62 @@ routineCommand
     await routineCreator.deleteRoutine(options.id, skipConfirmation);
   });
 
+// Export routines to a portable file (backup, sharing, version control)
+routineCommand
+  .command('export [routineIds...]')
+  .description('Export routines (default: all) with their steps, priority and weight')
+  .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-d, --directory <directory>', 'Working directory (for priority settings)', '.')
+  .option('-o, --output <file>', 'Output file, .json or .yaml (default: stdout)')
+  .option('--format <format>', 'Output format (json | yaml; default: from the output file extension)')
+  .action(async (routineIds: string[], options: any) => {
+    const authManager = new AuthManager(options.apiUrl);
+
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
+
+    if (options.format && !['json', 'yaml'].includes(options.format)) {
+      console.error(chalk.red('❌ Invalid format. Please specify "json" or "yaml".'));
+      process.exit(1);
+    }
+
+    // Keep stdout for the exported routines only
+    if (options.output) {
+      displayCompactLogo();
+    }
+    const routineCreator = new RoutineCreator(options.apiUrl, authManager, options.directory);
+    const routineManager = new RoutineManager(options.apiUrl, options.directory, authManager);
+    if (!(await routineCreator.exportRoutines(routineIds, routineManager, options.output, options.format))) {
+      process.exit(1);
+    }
+  });
+
+// Import routines from an export file, a routine file or the legacy routine.json format
+routineCommand
+  .command('import <file>')
+  .description('Import routines from a JSON/YAML file; routines whose name already exists can be updated, skipped or renamed')
+  .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-d, --directory <directory>', 'Working directory (for priority settings)', '.')
+  .option('--on-duplicate <action>', 'For routines whose name already exists: update | skip | rename (default: ask)')
+  .action(async (file: string, options: any) => {
+    const authManager = new AuthManager(options.apiUrl);
+
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
+
+    displayCompactLogo();
+    if (options.onDuplicate && !DUPLICATE_ACTIONS.includes(options.onDuplicate)) {
+      console.log(chalk.red(`❌ Invalid --on-duplicate. Please specify one of: ${DUPLICATE_ACTIONS.join(', ')}`));
+      process.exit(1);
+    }
+
+    const routineCreator = new RoutineCreator(options.apiUrl, authManager, options.directory);
+    const routineManager = new RoutineManager(options.apiUrl, options.directory, authManager);
+    if (!(await routineCreator.importRoutines(file, routineManager, options.onDuplicate))) {
+      process.exit(1);
+    }
+  });
+
 // Priority management command
 program
   .command('priority')
@@ -409,14 +991,12 @@ program
   .option('--show', 'Display current priority settings')
   .option('--set <routineId:priority>', 'Set routine priority (e.g., abc123:8)')
   .option('--weight <routineId:weight>', 'Set routine weight (e.g., abc123:1.5)')
+  .option('--max-operations <routineId:number>', 'Set max operations per LLM response (e.g., abc123:5)')
   .action(async (options: any) => {
     const authManager = new AuthManager(options.apiUrl);
     
-    // Authentication check
-    if (!(await authManager.ensureAuthenticated())) {
-      console.log(chalk.red('❌ Authentication required. Please login with "aireer login".'));
-      process.exit(1);
-    }
+    // Authentication check (not needed for routines stored in local files)
+    await ensureRoutineAccess(authManager);
 
     displayCompactLogo();
     const routineManager = new RoutineManager(options.apiUrl, options.directory, authManager);
@@ -449,6 +1029,16 @@ program
       return;
     }
     
+    if (options.maxOperations) {
+      const [routineId, maxOperations] = options.maxOperations.split(':');
+      if (routineId && maxOperations && !isNaN(parseInt(maxOperations))) {
+        routineManager.adjustMaxOperations(routineId, parseInt(maxOperations));
+      } else {
+        console.log(chalk.red('❌ Invalid format. Example: --max-operations abc123:5'));
+      }
+      return;
+    }
+    
     // Default: display priority settings
     console.log(chalk.blue('📊 Displaying routine priority settings...'));
     const routines = await routineManager.fetchActiveRoutines();
@@ -456,6 +1046,161 @@ program
     await routineManager.getRoutinePriorityInfo();
   });
 
+// Routine goal (completion criteria) management
+const goalCommand = program
+  .command('goal')
+  .description('Manage routine goals; a routine whose goal is met is no longer executed');
+
+goalCommand
+  .command('set <routineId>')
+  .description('Set the goal of a routine (replaces the existing goal and resets its progress)')
+  .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .option('--file <path>', 'File that must exist (repeatable)', collect, [])
+  .option('--command <command>', 'Command that must exit 0 (repeatable)', collect, [])
+  .option('--check <condition>', 'Natural-language condition judged by the LLM (repeatable)', collect, [])
+  .option('--deactivate', 'Mark the routine inactive on the server once the goal is met')
+  .action(async (routineId: string, options: any) => {
+    displayCompactLogo();
+    const criteria = [
+      ...options.file.map((filepath: string) => ({ type: 'file' as const, path: filepath })),
+      ...options.command.map((command: string) => ({ type: 'command' as const, command })),
+      ...options.check.map((check: string) => ({ type: 'llm' as const, check }))
+    ];
+    if (criteria.length === 0) {
+      console.log(chalk.red('❌ Specify at least one of --file, --command or --check'));
+      process.exit(1);
+    }
+
+    const { describeCriterion } = await import('./goal-evaluator.js');
+    const routineManager = new RoutineManager(options.apiUrl, options.directory);
+    routineManager.setGoal(routineId, { criteria, deactivateOnComplete: options.deactivate === true });
+    console.log(chalk.green(`✅ Set goal of routine ${routineId}:`));
+    criteria.forEach(criterion => console.log(chalk.gray(`   - ${describeCriterion(criterion)}`)));
+  });
+
+goalCommand
+  .command('clear <routineId>')
+  .description('Remove the goal of a routine so it is executed again')
+  .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .action(async (routineId: string, options: any) => {
+    displayCompactLogo();
+    const routineManager = new RoutineManager(options.apiUrl, options.directory);
+    if (routineManager.clearGoal(routineId)) {
+      console.log(chalk.green(`✅ Removed goal of routine ${routineId}`));
+    } else {
+      console.log(chalk.yellow(`⚠️  Routine ${routineId} has no goal`));
+    }
+  });
+
+goalCommand
+  .command('show')
+  .description('Display routine goals and their progress')
+  .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .action(async (options: any) => {
+    displayCompactLogo();
+    const { describeCriterion, formatGoalProgress } = await import('./goal-evaluator.js');
+    const routineManager = new RoutineManager(options.apiUrl, options.directory);
+    const goals = routineManager.getGoals();
+    if (goals.length === 0) {
+      console.log(chalk.yellow('📝 No routine goals configured'));
+      console.log(chalk.gray('  Set one with `aireer goal set <routineId> --file <path>`'));
+      return;
+    }
+
+    for (const { routineId, goal, progress } of goals) {
+      console.log(chalk.cyan(`\n🏁 ${routineId}: ${formatGoalProgress(goal, progress)}`));
+      goal.criteria.forEach(criterion => {
+        const result = progress?.results.find(r => JSON.stringify(r.criterion) === JSON.stringify(criterion));
+        const mark = result ? (result.met ? chalk.green('✔') : chalk.red('✘')) : chalk.gray('-');
+        console.log(`   ${mark} ${describeCriterion(criterion)}${result?.detail ? chalk.gray(` (${result.detail})`) : ''}`);
+      });
+      if (goal.deactivateOnComplete) {
+        console.log(chalk.gray('   Marked inactive on the server when met'));
+      }
+    }
+  });
+
+// Per-routine schedule (cron, time windows, cooldown, daily cap)
+routineCommand
+  .command('schedule <routineId>')
+  .description('Set when a routine may run in autonomous mode (without options, displays the schedule)')
+  .option('-u, --api-url <url>', 'API base URL', 'https://api.aireer.work')
+  .option('-d, --directory <directory>', 'Working directory', '.')
+  .option('--cron <expression>', 'Cron expression (minute hour day month weekday); the routine runs once per match')
+  .option('--window <window>', 'Allowed time window, e.g. "mon-fri 09:00-18:00" (repeatable, replaces existing windows)', collect, [])
+  .option('--timezone <zone>', 'IANA time zone for cron and windows (e.g. Asia/Tokyo)')
+  .option('--cooldown <seconds>', 'Minimum time between runs of this routine')
+  .option('--max-runs-per-day <number>', 'Maximum runs per day')
+  .option('--clear', 'Remove the schedule')
+  .addHelpText('after', '\nPass "none" to --cron, --window, --timezone, --cooldown or --max-runs-per-day to remove that setting.')
+  .action(async (routineId: string, options: any) => {
+    displayCompactLogo();
+    const { parseTimeWindow, validateCron, isValidTimezone, formatSchedule } = await import('./routine-schedule.js');
+    const routineManager = new RoutineManager(options.apiUrl, options.directory);
+
+    if (options.clear) {
+      if (routineManager.clearSchedule(routineId)) {
+        console.log(chalk.green(`✅ Removed schedule of routine ${routineId}`));
+      } else {
+        console.log(chalk.yellow(`⚠️  Routine ${routineId} has no schedule`));
+      }
+      return;
+    }
+
+    const fail = (message: string) => {
+      console.log(chalk.red(`❌ ${message}`));
+      process.exit(1);
+    };
+    const changes: Record<string, unknown> = {};
+
+    if (options.cron !== undefined) {
+      const error = options.cron === 'none' ? null : validateCron(options.cron);
+      if (error) {
+        fail(`Invalid cron expression: ${error}`);
+      }
+      changes.cron = options.cron === 'none' ? undefined : options.cron.trim().split(/\s+/).join(' ');
+    }
+    if (options.window.length > 0) {
+      try {
+        changes.windows = options.window.includes('none') ? undefined : options.window.map(parseTimeWindow);
+      } catch (error: any) {
+        fail(error.message);
+      }
+    }
+    if (options.timezone !== undefined) {
+      if (options.timezone !== 'none' && !isValidTimezone(options.timezone)) {
+        fail(`Unknown time zone: ${options.timezone}`);
+      }
+      changes.timezone = options.timezone === 'none' ? undefined : options.timezone;
+    }
+    if (options.cooldown !== undefined) {
+      const cooldown = Number(options.cooldown);
+      if (options.cooldown !== 'none' && (!Number.isFinite(cooldown) || cooldown < 0)) {
+        fail('--cooldown must be a number of seconds (0 or more)');
+      }
+      changes.cooldown = options.cooldown === 'none' ? undefined : cooldown;
+    }
+    if (options.maxRunsPerDay !== undefined) {
+      const maxRuns = Number(options.maxRunsPerDay);
+      if (options.maxRunsPerDay !== 'none' && (!Number.isInteger(maxRuns) || maxRuns < 1)) {
+        fail('--max-runs-per-day must be a whole number of 1 or more');
+      }
+      changes.maxRunsPerDay = options.maxRunsPerDay === 'none' ? undefined : maxRuns;
+    }
+
+    if (Object.keys(changes).length > 0) {
+      routineManager.setSchedule(routineId, changes);
+      console.log(chalk.green(`✅ Updated schedule of routine ${routineId}`));
+    }
+
+    const schedule = routineManager.getSchedule(routineId);
+    console.log(chalk.cyan(`⏰ Schedule: ${schedule ? formatSchedule(schedule) : 'none (global cooldown only)'}`));
+    console.log(chalk.gray(`   Next eligible run: ${routineManager.formatNextEligibleTime(routineId)}`));
+  });
+
 program
   .command('schedule')
   .description('Continuously hit APIs with scheduled execution')
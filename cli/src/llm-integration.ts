@@ -2,6 +2,8 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { FileManager } from './file-manager.js';
 import { ApiClient } from './api-client.js';
+import { ShutdownCoordinator } from './shutdown-coordinator.js';
+import { loadTemplate, renderTemplate } from './prompt-templates.js';
 import { execSync } from 'child_process';
 import * as path from 'path';
 
@@ -30,24 +32,30 @@ export async function setupLLMMode(initialPrompt: string = '', options: LLMOptio
   const apiClient = new ApiClient(options.apiUrl || 'http://localhost:3000');
   let previousResponseJson: LLMResponse | null = null;
 
-  // 初期プロンプトの設定
-  const basePrompt = buildBasePrompt(initialPrompt);
+  // 初期プロンプトの設定（プロジェクト・グローバルのテンプレートで上書き可能）
+  const template = loadTemplate('llm-mode', options.directory);
+  if (template.path) {
+    console.log(chalk.gray(`📝 プロンプトテンプレート: ${template.path}`));
+  }
   console.log(chalk.cyan('📝 初期プロンプト:'));
-  console.log(chalk.gray(basePrompt.substring(0, 200) + '...'));
+  console.log(chalk.gray(renderTemplate(template.content, { initialPrompt, directoryState: '' }).prompt.substring(0, 200) + '...'));
 
-  // Ctrl+Cで停止するためのハンドラー
+  // Ctrl+Cで停止するためのハンドラー（実行中の操作の完了を待ってから終了）
   let isRunning = true;
-  process.on('SIGINT', () => {
-    console.log(chalk.yellow('\n⏹️  LLM API連携モードを停止しています...'));
+  const shutdown = new ShutdownCoordinator('LLM API mode').install();
+  shutdown.onStop(() => {
     isRunning = false;
-    process.exit(0);
   });
 
   while (isRunning) {
+    // 1回分の問い合わせと操作を終了時に待つ処理として登録する
+    let finishIteration!: () => void;
+    shutdown.track(new Promise<void>(resolve => { finishIteration = resolve; }));
+
     try {
       // 現在のディレクトリ状態を取得
       const currentState = await getDirectoryState(options.directory);
-      const prompt = `${basePrompt}\n現在のディレクトリの状態: ${currentState}`;
+      const { prompt } = renderTemplate(template.content, { initialPrompt, directoryState: currentState });
 
       console.log(chalk.blue('\n🔄 LLM APIに問い合わせ中...'));
       
@@ -56,7 +64,7 @@ export async function setupLLMMode(initialPrompt: string = '', options: LLMOptio
       
       if (!response) {
         console.log(chalk.yellow('⚠️  APIからレスポンスが得られませんでした'));
-        await sleep(options.interval * 1000);
+        await shutdown.sleep(options.interval * 1000);
         continue;
       }
 
@@ -68,7 +76,7 @@ export async function setupLLMMode(initialPrompt: string = '', options: LLMOptio
       
       if (!responseJson) {
         console.log(chalk.yellow('⚠️  有効なJSONレスポンスが得られませんでした'));
-        await sleep(options.interval * 1000);
+        await shutdown.sleep(options.interval * 1000);
         continue;
       }
 
@@ -98,37 +106,21 @@ export async function setupLLMMode(initialPrompt: string = '', options: LLMOptio
       // 次の実行まで待機
       if (isRunning) {
         console.log(chalk.gray(`⏳ ${options.interval}秒待機中...`));
-        await sleep(options.interval * 1000);
+        await shutdown.sleep(options.interval * 1000);
       }
 
     } catch (error) {
       console.error(chalk.red('❌ エラーが発生しました:'), error);
       if (isRunning) {
         console.log(chalk.gray(`⏳ ${options.interval}秒待機してリトライします...`));
-        await sleep(options.interval * 1000);
+        await shutdown.sleep(options.interval * 1000);
       }
+    } finally {
+      finishIteration();
     }
   }
 }
 
-function buildBasePrompt(initialPrompt: string): string {
-  const basePrompt = `${initialPrompt}
-responseは下記のjson型で返却してください。メッセージなどは要らず全てjsonのみで返却してください。json以外のメッセージは返却しないでください。必要な場合にはコマンドを実行するためのjsonを返してください。jsonは改行せず一行にしてください。
-
-{"type": "create", "filepath": "<対象ファイルのフルパス>", "file": "<ファイルの実装中身>", "command": "<実行するコマンド>"}
-
-- ファイルを作成する必要があるときはtypeは"create"にして
-- 削除するときはtypeは"delete"
-- 変更するときや修正するときはtypeは"change"にして  
-- プロジェクトを作成したりコマンドを実行するときはtypeは"execute"にして
-- 目標を達成していたりすでに対象のファイルが存在していて条件を満たしていたらtypeは"done"にして
-
-画面デザインをソースコードで作るときは必ずモダンかつおしゃれでアイコンを多めに使うようにしてください。
-前回と同じjsonが返却されている場合、対象のファイルをチェックして変更がなければdoneを返却するようにしてください。`;
-
-  return basePrompt;
-}
-
 async function getDirectoryState(directory: string): Promise<string> {
   try {
     // 'tree'コマンドを実行してディレクトリの状態を取得
@@ -286,8 +278,4 @@ async function executeFileOperation(
     default:
       console.log(chalk.yellow(`⚠️  不明な操作タイプ: ${type}`));
   }
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
 } 
\ No newline at end of file
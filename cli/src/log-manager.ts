@@ -24,13 +24,18 @@ interface ErrorEntry {
   context?: any;
 }
 
-type ErrorType = 
+export type ErrorType = 
   | 'RATE_LIMIT_ERROR'
   | 'LLM_API_ERROR' 
   | 'NETWORK_ERROR'
   | 'VALIDATION_ERROR'
+  | 'LLM_RESPONSE_VALIDATION_ERROR'
   | 'FILE_OPERATION_ERROR'
   | 'ROUTINE_EXECUTION_ERROR'
+  | 'ANOMALY_DETECTED'
+  | 'BUDGET_EXCEEDED'
+  | 'FILE_LOCK_CONFLICT'
+  | 'MERGE_CONFLICT'
   | 'UNKNOWN_ERROR';
 
 export class LogManager {
@@ -171,8 +176,13 @@ export class LogManager {
       LLM_API_ERROR: `❌ LLM API error (${errorId})`,
       NETWORK_ERROR: `❌ Network error (${errorId})`,
       VALIDATION_ERROR: `❌ Input validation error (${errorId})`,
+      LLM_RESPONSE_VALIDATION_ERROR: `❌ LLM response failed schema validation (${errorId})`,
       FILE_OPERATION_ERROR: `❌ File operation error (${errorId})`,
       ROUTINE_EXECUTION_ERROR: `❌ Routine execution error (${errorId})`,
+      ANOMALY_DETECTED: `🛑 Anomaly detected, circuit breaker tripped (${errorId})`,
+      BUDGET_EXCEEDED: `💰 LLM budget exceeded (${errorId})`,
+      FILE_LOCK_CONFLICT: `🔒 File is locked by another routine (${errorId})`,
+      MERGE_CONFLICT: `🔀 Workspace could not be merged because of conflicts (${errorId})`,
       UNKNOWN_ERROR: `❌ Unknown error (${errorId})`,
     };
 
@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExecutionHistory } from './execution-history.js';
+import { RoutineGoal, GoalProgress, describeCriterion } from './goal-evaluator.js';
+
+export type TemplateName = 'routine' | 'llm-mode';
+
+export const TEMPLATE_NAMES: TemplateName[] = ['routine', 'llm-mode'];
+
+export type TemplateSource = 'routine' | 'project' | 'global' | 'builtin';
+
+export interface PromptTemplate {
+  name: TemplateName;
+  content: string;
+  source: TemplateSource;
+  path?: string; // builtin 以外のファイルパス
+}
+
+export interface RenderResult {
+  prompt: string;
+  unknownVariables: string[];
+}
+
+export interface RoutinePromptContext {
+  directory: string;
+  executionHistory: ExecutionHistory;
+  maxOperations: number;
+  maxSteps: number;
+  directoryState: string;
+  goal?: RoutineGoal;
+  goalProgress?: GoalProgress;
+}
+
+export const TEMPLATE_DIRECTORY = '.aireer-templates';
+
+// 変数はそれぞれ末尾の改行を含むブロックとして展開される（該当がない場合は空）
+const BUILTIN_TEMPLATES: Record<TemplateName, string> = {
+  routine: `Routine: {{routine.name}}
+Description: {{routine.description}}
+
+{{steps}}{{goal}}
+{{history}}
+{{recentOperations}}Please return the execution content in the following JSON format. No messages needed, return only JSON:
+{"operations": [{"type": "create|change|patch|replace|edit_lines|delete|execute|read|list|search|done", "filepath": "<file path>", "file": "<file content>", "command": "<command>", "pattern": "<search text>"}]}
+
+- Operations are applied in the listed order, up to {{maxOperations}} operations per response
+- Each operation only takes the fields listed for its type; responses that do not follow this format are rejected
+- To create a file: type="create" with filepath and file
+- To modify a file: type="change" with filepath and file (the complete new content)
+- To modify part of a file, prefer one of the following over change for large files (they are rejected if the file no longer matches, so read the file first):
+  - type="replace" with filepath, search (the exact current text, matching exactly once) and replace (the new text)
+  - type="patch" with filepath and diff (a unified diff with "@@" hunk headers and unchanged context lines)
+  - type="edit_lines" with filepath, startLine and endLine (1-based, inclusive), search (the current content of those lines) and replace (the new lines)
+- To delete a file: type="delete" with filepath
+- To execute a command: type="execute" with command, optionally directory (exit code, stdout and stderr are returned to you)
+- To read a file: type="read" with filepath (the file content is returned to you)
+- To list files in a directory: type="list" (filepath is the directory, add "recursive": true to include subdirectories)
+- To search text in files: type="search" with pattern, optionally filepath as the directory to search
+- When the routine is complete: type="done"
+
+This is a conversation of up to {{maxSteps}} steps. The results of your operations are sent back in the next step, so you can inspect files before changing them. If a command fails, the remaining operations are skipped and you get its output to fix the cause; the routine only succeeds if the same command succeeds when run again later. Return type="done" as soon as the routine is complete.
+
+【Important Instructions】
+1. Avoid exactly the same operations as previous execution history
+2. Do not recreate files that have already been created
+3. Do not repeatedly execute the same commands
+4. Proceed with tasks from new perspectives or different approaches
+5. Check if existing files exist and select change if necessary
+
+Current directory state:
+{{directoryState}}`,
+
+  'llm-mode': `{{initialPrompt}}
+responseは下記のjson型で返却してください。メッセージなどは要らず全てjsonのみで返却してください。json以外のメッセージは返却しないでください。必要な場合にはコマンドを実行するためのjsonを返してください。jsonは改行せず一行にしてください。
+
+{"type": "create", "filepath": "<対象ファイルのフルパス>", "file": "<ファイルの実装中身>", "command": "<実行するコマンド>"}
+
+- ファイルを作成する必要があるときはtypeは"create"にして
+- 削除するときはtypeは"delete"
+- 変更するときや修正するときはtypeは"change"にして
+- プロジェクトを作成したりコマンドを実行するときはtypeは"execute"にして
+- 目標を達成していたりすでに対象のファイルが存在していて条件を満たしていたらtypeは"done"にして
+
+画面デザインをソースコードで作るときは必ずモダンかつおしゃれでアイコンを多めに使うようにしてください。
+前回と同じjsonが返却されている場合、対象のファイルをチェックして変更がなければdoneを返却するようにしてください。
+現在のディレクトリの状態: {{directoryState}}`
+};
+
+/**
+ * テンプレートファイルの候補（優先度の高い順）
+ */
+export function getTemplatePaths(name: TemplateName, directory: string, routineId?: string): Array<{ source: TemplateSource; path: string }> {
+  const candidates: Array<{ source: TemplateSource; path: string }> = [];
+  if (routineId) {
+    candidates.push({ source: 'routine', path: path.join(directory, TEMPLATE_DIRECTORY, 'routines', routineId, `${name}.md`) });
+  }
+  candidates.push({ source: 'project', path: path.join(directory, TEMPLATE_DIRECTORY, `${name}.md`) });
+  candidates.push({ source: 'global', path: path.join(os.homedir(), TEMPLATE_DIRECTORY, `${name}.md`) });
+  return candidates;
+}
+
+/**
+ * ルーチン → プロジェクト → グローバル → 組み込みの順にテンプレートを探す
+ */
+export function loadTemplate(name: TemplateName, directory: string, routineId?: string): PromptTemplate {
+  for (const candidate of getTemplatePaths(name, directory, routineId)) {
+    if (fs.existsSync(candidate.path)) {
+      return { name, content: fs.readFileSync(candidate.path, 'utf-8'), source: candidate.source, path: candidate.path };
+    }
+  }
+  return { name, content: BUILTIN_TEMPLATES[name], source: 'builtin' };
+}
+
+export function getBuiltinTemplate(name: TemplateName): string {
+  return BUILTIN_TEMPLATES[name];
+}
+
+/**
+ * {{variable}} / {{object.property}} を値に置き換える（未定義の変数は空文字にする）
+ */
+export function renderTemplate(template: string, variables: Record<string, unknown>): RenderResult {
+  const unknownVariables = new Set<string>();
+
+  const prompt = template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, name: string) => {
+    const value = name.split('.').reduce<any>((current, key) => (current == null ? undefined : current[key]), variables);
+    if (value === undefined || value === null) {
+      unknownVariables.add(name);
+      return '';
+    }
+    return typeof value === 'string' ? value : String(value);
+  });
+
+  return { prompt, unknownVariables: [...unknownVariables] };
+}
+
+/**
+ * ルーチン用テンプレートの変数を集める
+ */
+export async function buildRoutineVariables(routine: any, context: RoutinePromptContext): Promise<Record<string, unknown>> {
+  let steps = '';
+  if (routine.steps && routine.steps.length > 0) {
+    steps = 'Steps:\n';
+    routine.steps.forEach((step: any, index: number) => {
+      steps += `${index + 1}. [${step.type ?? 'action'}] ${step.content}`;
+      if (step.parameters) {
+        try {
+          const params = typeof step.parameters === 'string' ?
+            JSON.parse(step.parameters) : step.parameters;
+          steps += ` (Parameters: ${JSON.stringify(params)})`;
+        } catch (e) {
+          // Ignore parameter parsing errors
+        }
+      }
+      steps += '\n';
+    });
+  }
+
+  // The routine is finished once every goal criterion is met
+  let goal = '';
+  if (context.goal) {
+    goal = '\nGoal (the routine is finished when all criteria are met):\n';
+    context.goal.criteria.forEach(criterion => {
+      const result = context.goalProgress?.results.find(r => JSON.stringify(r.criterion) === JSON.stringify(criterion));
+      const status = result ? (result.met ? 'met' : `not met${result.detail ? ` - ${result.detail}` : ''}`) : 'not checked yet';
+      goal += `- ${describeCriterion(criterion)} [${status}]\n`;
+    });
+  }
+
+  // Previous execution history (to avoid duplication)
+  const history = await context.executionHistory.getPreviousExecutionsSummary(routine.id, 3);
+
+  // Operations executed within the last 24 hours
+  let recentOperations = '';
+  const operations = await context.executionHistory.getRecentFileOperations(routine.id, 24);
+  if (operations.length > 0) {
+    recentOperations = `【Operations executed within the last 24 hours (avoid duplication)】\n`;
+    operations.forEach(op => {
+      recentOperations += `- ${op}\n`;
+    });
+    recentOperations += `Please avoid the same files/commands as above operations and take a new approach.\n\n`;
+  }
+
+  return {
+    routine: { id: routine.id, name: routine.name, description: routine.description },
+    steps,
+    goal,
+    history,
+    recentOperations,
+    maxOperations: context.maxOperations,
+    maxSteps: context.maxSteps,
+    directoryState: context.directoryState
+  };
+}
+
+/**
+ * ルーチン実行の最初のプロンプトを組み立てる
+ */
+export async function buildRoutinePrompt(routine: any, context: RoutinePromptContext): Promise<RenderResult & { template: PromptTemplate }> {
+  const template = loadTemplate('routine', context.directory, routine.id);
+  const variables = await buildRoutineVariables(routine, context);
+  return { ...renderTemplate(template.content, variables), template };
+}
@@ -57,7 +57,7 @@ export class RateLimitHandler {
   /**
    * エラーがレート制限関連かどうかを判定
    */
-  private static isRateLimitError(error: any): boolean {
+  static isRateLimitError(error: any): boolean {
     if (!error) return false;
 
     // HTTPステータスコード429
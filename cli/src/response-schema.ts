@@ -0,0 +1,269 @@
+export type OperationType = 'create' | 'change' | 'patch' | 'replace' | 'edit_lines' | 'delete' | 'execute' | 'read' | 'list' | 'search' | 'done';
+
+export const OPERATION_TYPES: OperationType[] = ['create', 'change', 'patch', 'replace', 'edit_lines', 'delete', 'execute', 'read', 'list', 'search', 'done'];
+
+// 既存ファイルの一部だけを書き換える操作
+export const PARTIAL_EDIT_TYPES: OperationType[] = ['patch', 'replace', 'edit_lines'];
+
+// condition / loop ステップの判定中に使える、ワークスペースを変更しない操作（コマンドは何をするか分からないため含めない）
+export const INSPECTION_TYPES: OperationType[] = ['read', 'list', 'search'];
+
+export interface LLMOperation {
+  type: OperationType;
+  filepath?: string;
+  file?: string;
+  command?: string;
+  directory?: string;
+  pattern?: string;
+  recursive?: boolean;
+  diff?: string;      // patch: unified diff
+  search?: string;    // replace / edit_lines: 現在の内容
+  replace?: string;   // replace / edit_lines: 置き換え後の内容
+  startLine?: number; // edit_lines: 1始まり
+  endLine?: number;   // edit_lines: 両端を含む
+  summary?: string;   // done: ステップの結果の要約（後続のステップに渡される）
+}
+
+// A response is either a single operation (legacy format) or an ordered list of operations
+export interface LLMResponse extends Partial<LLMOperation> {
+  operations?: LLMOperation[];
+  result?: boolean; // condition / loop ステップの判定結果
+  reason?: string;
+}
+
+export interface ResponseValidation {
+  response: LLMResponse | null;
+  operations: LLMOperation[];
+  errors: string[];
+}
+
+type FieldKind = 'string' | 'boolean' | 'number';
+
+// 操作ごとの必須・任意フィールド（これ以外のフィールドはエラー）
+const OPERATION_FIELDS: Record<OperationType, { required: string[]; optional: string[] }> = {
+  create: { required: ['filepath', 'file'], optional: [] },
+  change: { required: ['filepath', 'file'], optional: [] },
+  patch: { required: ['filepath', 'diff'], optional: [] },
+  replace: { required: ['filepath', 'search', 'replace'], optional: [] },
+  edit_lines: { required: ['filepath', 'startLine', 'endLine', 'search', 'replace'], optional: [] },
+  delete: { required: ['filepath'], optional: [] },
+  execute: { required: ['command'], optional: ['directory'] },
+  read: { required: ['filepath'], optional: [] },
+  list: { required: [], optional: ['filepath', 'recursive'] },
+  search: { required: ['pattern'], optional: ['filepath'] },
+  done: { required: [], optional: ['summary'] }
+};
+
+const FIELD_KINDS: Record<string, FieldKind> = {
+  filepath: 'string',
+  file: 'string',
+  command: 'string',
+  directory: 'string',
+  pattern: 'string',
+  recursive: 'boolean',
+  diff: 'string',
+  search: 'string',
+  replace: 'string',
+  startLine: 'number',
+  endLine: 'number',
+  summary: 'string'
+};
+
+// 空文字を許可するフィールド（ファイル内容・置き換え後の内容は空でもよい）
+const EMPTY_ALLOWED = ['file', 'replace'];
+
+// Field names LLMs commonly use instead of the ones in the schema
+const FIELD_HINTS: Record<string, string> = {
+  content: 'file',
+  path: 'filepath',
+  cmd: 'command',
+  query: 'pattern',
+  patch: 'diff',
+  find: 'search',
+  old: 'search',
+  new: 'replace',
+  start: 'startLine',
+  end: 'endLine'
+};
+
+const CODE_FENCE = /```[ \t]*([A-Za-z]*)[ \t]*\r?\n([\s\S]*?)```/g;
+
+/**
+ * LLM の応答テキストから JSON を取り出し、操作のスキーマを検証する
+ */
+export function parseLLMResponse(text: string, maxOperations: number): ResponseValidation {
+  const invalid = (...errors: string[]): ResponseValidation => ({ response: null, operations: [], errors });
+
+  const extracted = extractJSON(text);
+  if (extracted.error) {
+    return invalid(extracted.error);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extracted.json!);
+  } catch (error: any) {
+    return invalid(`Response is not valid JSON: ${error.message}`);
+  }
+
+  let rawOperations: unknown[];
+  if (Array.isArray(parsed)) {
+    rawOperations = parsed;
+  } else if (isObject(parsed) && 'operations' in parsed) {
+    const extraKeys = Object.keys(parsed).filter(key => key !== 'operations');
+    if (extraKeys.length > 0) {
+      return invalid(`Unknown top-level field(s): ${extraKeys.join(', ')} (only "operations" is allowed)`);
+    }
+    if (!Array.isArray(parsed.operations)) {
+      return invalid('"operations" must be an array');
+    }
+    rawOperations = parsed.operations;
+  } else if (isObject(parsed) && 'type' in parsed) {
+    rawOperations = [parsed];
+  } else {
+    return invalid('Response must be an object with an "operations" array');
+  }
+
+  if (rawOperations.length === 0) {
+    return invalid('"operations" must contain at least one operation');
+  }
+  if (rawOperations.length > maxOperations) {
+    return invalid(`Response contains ${rawOperations.length} operations (limit: ${maxOperations})`);
+  }
+
+  const errors = rawOperations.flatMap((operation, index) => validateOperation(operation).map(error => `operations[${index}]: ${error}`));
+  if (errors.length > 0) {
+    return invalid(...errors);
+  }
+
+  const operations = rawOperations as LLMOperation[];
+  return { response: { operations }, operations, errors: [] };
+}
+
+/**
+ * condition / loop ステップの応答を検証する
+ * 判定結果 {"result": true|false, "reason": "..."} か、判定のための調査操作（INSPECTION_TYPES のみ）を受け付ける
+ */
+export function parseConditionResponse(text: string, maxOperations: number): ResponseValidation {
+  const invalid = (...errors: string[]): ResponseValidation => ({ response: null, operations: [], errors });
+
+  const extracted = extractJSON(text);
+  let parsed: unknown;
+  try {
+    parsed = extracted.json !== undefined ? JSON.parse(extracted.json) : undefined;
+  } catch (error) {
+    parsed = undefined;
+  }
+
+  if (isObject(parsed) && 'result' in parsed) {
+    const errors: string[] = [];
+    const extraKeys = Object.keys(parsed).filter(key => key !== 'result' && key !== 'reason');
+    if (extraKeys.length > 0) {
+      errors.push(`Unknown top-level field(s): ${extraKeys.join(', ')} (only "result" and "reason" are allowed)`);
+    }
+    if (typeof parsed.result !== 'boolean') {
+      errors.push('"result" must be true or false');
+    }
+    if (parsed.reason !== undefined && typeof parsed.reason !== 'string') {
+      errors.push('"reason" must be a string');
+    }
+    if (errors.length > 0) {
+      return invalid(...errors);
+    }
+    return { response: { result: parsed.result as boolean, reason: parsed.reason as string | undefined }, operations: [], errors: [] };
+  }
+
+  const validation = parseLLMResponse(text, maxOperations);
+  if (!validation.response) {
+    return invalid(...validation.errors, 'To answer, return {"result": true|false, "reason": "..."}');
+  }
+  const errors = validation.operations
+    .map((operation, index) => INSPECTION_TYPES.includes(operation.type)
+      ? null
+      : `operations[${index}]: ${operation.type} is not allowed while evaluating a condition (use ${INSPECTION_TYPES.join(', ')})`)
+    .filter((error): error is string => error !== null);
+  return errors.length > 0 ? invalid(...errors) : validation;
+}
+
+/**
+ * 応答テキストから JSON 部分を取り出す
+ * コードフェンスがある場合はその中身（1つだけ）を使い、ない場合は最初の { から最後の } までを使う
+ */
+function extractJSON(text: string): { json?: string; error?: string } {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return { json: trimmed };
+  }
+
+  const fences = [...trimmed.matchAll(CODE_FENCE)]
+    .filter(match => match[1] === '' || match[1].toLowerCase() === 'json');
+  if (fences.length > 1) {
+    return { error: `Response contains ${fences.length} code blocks; return a single JSON object` };
+  }
+  if (fences.length === 1) {
+    return { json: fences[0][2].trim() };
+  }
+
+  const jsonStart = trimmed.indexOf('{');
+  const jsonEnd = trimmed.lastIndexOf('}');
+  if (jsonStart === -1 || jsonEnd <= jsonStart) {
+    return { error: 'Response does not contain a JSON object' };
+  }
+  return { json: trimmed.substring(jsonStart, jsonEnd + 1) };
+}
+
+function validateOperation(operation: unknown): string[] {
+  if (!isObject(operation)) {
+    return ['operation must be an object'];
+  }
+
+  const type = operation.type;
+  if (typeof type !== 'string' || !OPERATION_TYPES.includes(type as OperationType)) {
+    return [`unknown type ${JSON.stringify(type)} (expected one of: ${OPERATION_TYPES.join(', ')})`];
+  }
+
+  const errors: string[] = [];
+  const { required, optional } = OPERATION_FIELDS[type as OperationType];
+
+  for (const field of required) {
+    if (operation[field] === undefined || operation[field] === null) {
+      errors.push(`${type} requires "${field}"`);
+    }
+  }
+
+  for (const [field, value] of Object.entries(operation)) {
+    if (field === 'type') {
+      continue;
+    }
+    if (!required.includes(field) && !optional.includes(field)) {
+      // Placeholders for fields of other operation types carry no data
+      if (value === null || value === '') {
+        continue;
+      }
+      const suggestion = FIELD_HINTS[field];
+      const hint = suggestion && (required.includes(suggestion) || optional.includes(suggestion)) ? ` (use "${suggestion}")` : '';
+      errors.push(`unknown field "${field}" for ${type}${hint}`);
+      continue;
+    }
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (typeof value !== FIELD_KINDS[field]) {
+      errors.push(`"${field}" must be a ${FIELD_KINDS[field]}`);
+    } else if (value === '' && !EMPTY_ALLOWED.includes(field)) {
+      errors.push(`"${field}" must not be empty`);
+    } else if (FIELD_KINDS[field] === 'number' && (!Number.isInteger(value) || (value as number) < 1)) {
+      errors.push(`"${field}" must be a line number (an integer starting at 1)`);
+    }
+  }
+
+  if (typeof operation.startLine === 'number' && typeof operation.endLine === 'number' && operation.endLine < operation.startLine) {
+    errors.push('"endLine" must not be before "startLine"');
+  }
+
+  return errors;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,7 +1,16 @@
 import chalk from 'chalk';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
 import inquirer from 'inquirer';
-import { ApiClient } from './api-client.js';
+import * as os from 'os';
+import * as path from 'path';
+import YAML from 'yaml';
 import { AuthManager } from './auth-manager.js';
+import { RoutineManager } from './routine-manager.js';
+import { formatGoalProgress } from './goal-evaluator.js';
+import { createUnifiedDiff, printDiff } from './diff-utils.js';
+import { Routine, RoutineStore, createRoutineStore, parseRoutineDefinition } from './routine-store.js';
+import { ExportFormat, ImportedRoutine, PortableRoutine, PortableStep, detectFormat, parseImportFile, serializeExport, toPortableRoutine } from './routine-transfer.js';
 
 interface RoutineStep {
   type: 'condition' | 'action' | 'loop';
@@ -17,19 +26,17 @@ interface CreateRoutineData {
   steps: RoutineStep[];
 }
 
+export type DuplicateAction = 'update' | 'skip' | 'rename';
+
+export const DUPLICATE_ACTIONS: DuplicateAction[] = ['update', 'skip', 'rename'];
+
 export class RoutineCreator {
-  private apiClient: ApiClient;
+  private routineStore: RoutineStore;
   private authManager: AuthManager;
 
-  constructor(apiUrl: string, authManager: AuthManager) {
-    this.apiClient = new ApiClient(apiUrl);
+  constructor(apiUrl: string, authManager: AuthManager, directory: string = '.') {
+    this.routineStore = createRoutineStore(apiUrl, directory, authManager);
     this.authManager = authManager;
-    
-    // 認証トークンを設定
-    const token = authManager.getConfigManager().getToken();
-    if (token) {
-      this.apiClient.setAuthToken(token);
-    }
   }
 
   async createThinkingRoutine(): Promise<void> {
@@ -420,28 +427,158 @@ export class RoutineCreator {
   }
 
   private async customizeSteps(steps: RoutineStep[]): Promise<RoutineStep[]> {
-    console.log(chalk.cyan('\nCurrent steps:'));
-    steps.forEach((step, index) => {
-      console.log(chalk.gray(`${index + 1}. [${step.type}] ${step.content}`));
-    });
+    let current = renumberSteps(steps);
 
-    const customizeChoice = await inquirer.prompt([
-      {
-        type: 'checkbox',
-        name: 'actions',
-        message: 'カスタマイズしたい操作を選択してください:',
-        choices: [
-          { name: 'ステップを追加', value: 'add' },
-          { name: 'ステップを編集', value: 'edit' },
-          { name: 'ステップを削除', value: 'delete' },
-          { name: 'ステップの順序を変更', value: 'reorder' }
-        ]
+    while (true) {
+      this.printSteps(current, 'Current steps:');
+
+      const customizeChoice = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'actions',
+          message: 'カスタマイズしたい操作を選択してください:',
+          choices: [
+            { name: 'ステップを追加', value: 'add' },
+            { name: 'ステップを編集', value: 'edit', disabled: current.length === 0 },
+            { name: 'ステップを削除', value: 'delete', disabled: current.length === 0 },
+            { name: 'ステップの順序を変更', value: 'reorder', disabled: current.length < 2 }
+          ]
+        }
+      ]);
+
+      // 選択された操作を追加・編集・削除・並べ替えの順に実行し、変更ごとにプレビューして確認する
+      for (const action of customizeChoice.actions as Array<'add' | 'edit' | 'delete' | 'reorder'>) {
+        const change = await this.prepareStepChange(action, current);
+        if (!change) {
+          continue;
+        }
+
+        this.printSteps(change.steps, 'Updated steps:', change.highlight);
+        const { apply } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'apply',
+            message: 'この変更を適用しますか？',
+            default: true
+          }
+        ]);
+        if (apply) {
+          current = change.steps;
+        }
       }
-    ]);
 
-    // TODO: カスタマイズ機能の詳細実装
-    // 現在は簡略版として、元のステップをそのまま返す
-    return steps;
+      const { more } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'more',
+          message: '他にカスタマイズしますか？',
+          default: false
+        }
+      ]);
+      if (!more) {
+        return current;
+      }
+    }
+  }
+
+  /**
+   * 1回分の変更を適用したステップ一覧を作る（order は振り直す。何もしない場合は null）
+   */
+  private async prepareStepChange(
+    action: 'add' | 'edit' | 'delete' | 'reorder',
+    steps: RoutineStep[]
+  ): Promise<{ steps: RoutineStep[]; highlight?: number } | null> {
+    const stepChoices = steps.map((step, index) => ({
+      name: `${index + 1}. [${step.type}] ${truncate(step.content, 60)}`,
+      value: index
+    }));
+
+    switch (action) {
+      case 'add': {
+        const { position } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'position',
+            message: 'ステップを追加する位置を選択してください:',
+            default: steps.length,
+            choices: [
+              { name: '先頭', value: 0 },
+              ...steps.map((step, index) => ({
+                name: `${index + 1}. ${truncate(step.content, 60)} の後`,
+                value: index + 1
+              }))
+            ]
+          }
+        ]);
+        const step = await this.promptStep();
+        const updated: RoutineStep[] = [...steps];
+        updated.splice(position, 0, { ...step, order: position });
+        return { steps: renumberSteps(updated), highlight: position };
+      }
+      case 'edit': {
+        const { index } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'index',
+            message: '編集するステップを選択してください:',
+            choices: stepChoices
+          }
+        ]);
+        const updated: RoutineStep[] = [...steps];
+        updated[index] = { ...(await this.promptStep(steps[index])), order: index };
+        return { steps: updated, highlight: index };
+      }
+      case 'delete': {
+        const { indexes } = await inquirer.prompt([
+          {
+            type: 'checkbox',
+            name: 'indexes',
+            message: '削除するステップを選択してください:',
+            choices: stepChoices,
+            validate: (selected: number[]) => selected.length < steps.length || 'ステップを1つ以上残してください'
+          }
+        ]);
+        if (indexes.length === 0) {
+          return null;
+        }
+        return { steps: renumberSteps(steps.filter((_, index) => !indexes.includes(index))) };
+      }
+      case 'reorder': {
+        const { from } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'from',
+            message: '移動するステップを選択してください:',
+            choices: stepChoices
+          }
+        ]);
+        const { to } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'to',
+            message: '移動先の位置を選択してください:',
+            default: from,
+            choices: steps.map((_, index) => ({ name: `${index + 1}番目`, value: index }))
+          }
+        ]);
+        if (from === to) {
+          return null;
+        }
+        const updated: RoutineStep[] = [...steps];
+        const [moved] = updated.splice(from, 1);
+        updated.splice(to, 0, moved);
+        return { steps: renumberSteps(updated), highlight: to };
+      }
+    }
+  }
+
+  private printSteps(steps: RoutineStep[], title: string, highlight?: number): void {
+    console.log(chalk.cyan(`\n${title}`));
+    steps.forEach((step, index) => {
+      const parameters = step.parameters !== undefined ? chalk.gray(` ${JSON.stringify(step.parameters)}`) : '';
+      const line = `${index + 1}. [${step.type}] ${step.content}`;
+      console.log(index === highlight ? chalk.green(`${line}${parameters}  ←`) : chalk.gray(line) + parameters);
+    });
   }
 
   private async confirmRoutine(routineData: CreateRoutineData): Promise<void> {
@@ -474,53 +611,54 @@ export class RoutineCreator {
     try {
       console.log(chalk.blue('🚀 Creating routine...'));
       
-      const response = await this.apiClient.post('/api/routines', routineData);
+      const routine = await this.routineStore.createRoutine(routineData);
       
-      if (response.success) {
-        console.log(chalk.green('✅ Thought routine created successfully!'));
-        console.log(chalk.white(`Routine ID: ${response.data.id}`));
-        console.log(chalk.white(`Name: ${response.data.name}`));
-        console.log(chalk.white(`Active: ${response.data.isActive ? 'Yes' : 'No'}`));
-        
-        if (response.data.isActive) {
-          console.log(chalk.cyan('\n🤖 This routine will be automatically executed in autonomous mode'));
-          console.log(chalk.gray('  You can start autonomous mode with `aireer autonomous` command'));
-        }
-      } else {
-        console.error(chalk.red('❌ ルーチン作成に失敗しました:'), response.message);
+      console.log(chalk.green('✅ Thought routine created successfully!'));
+      console.log(chalk.white(`Routine ID: ${routine.id}`));
+      console.log(chalk.white(`Name: ${routine.name}`));
+      console.log(chalk.white(`Active: ${routine.isActive ? 'Yes' : 'No'}`));
+      if (this.routineStore.mode === 'local') {
+        console.log(chalk.gray(`Stored in: ${this.routineStore.describe()}`));
+      }
+      
+      if (routine.isActive) {
+        console.log(chalk.cyan('\n🤖 This routine will be automatically executed in autonomous mode'));
+        console.log(chalk.gray('  You can start autonomous mode with `aireer autonomous` command'));
       }
     } catch (error) {
       console.error(chalk.red('❌ ルーチン作成でエラーが発生しました:'), error);
     }
   }
 
-  async listRoutines(): Promise<void> {
+  async listRoutines(routineManager?: RoutineManager): Promise<void> {
     try {
       console.log(chalk.blue('📋 Fetching routine list...'));
       
-      const response = await this.apiClient.get('/api/routines');
+      const routines = await this.routineStore.listRoutines();
       
-      if (response.success && response.data) {
-        if (response.data.length === 0) {
-          console.log(chalk.yellow('📝 No routines registered'));
-          console.log(chalk.gray('  You can create a new routine with `aireer routine create`'));
-          return;
-        }
-
-        console.log(chalk.green(`✅ Found ${response.data.length} routines\n`));
-        
-        response.data.forEach((routine: any, index: number) => {
-          const status = routine.isActive ? chalk.green('🟢 Active') : chalk.gray('⚫ Inactive');
-          console.log(chalk.white(`${index + 1}. ${routine.name} ${status}`));
-          console.log(chalk.gray(`   ID: ${routine.id}`));
-          console.log(chalk.gray(`   Description: ${routine.description}`));
-          console.log(chalk.gray(`   Number of steps: ${routine.steps?.length || 0}`));
-          console.log(chalk.gray(`   Created: ${new Date(routine.createdAt).toLocaleString()}`));
-          console.log('');
-        });
-      } else {
-        console.log(chalk.yellow('⚠️  Failed to retrieve routines'));
+      if (routines.length === 0) {
+        console.log(chalk.yellow('📝 No routines registered'));
+        console.log(chalk.gray('  You can create a new routine with `aireer routine create`'));
+        return;
       }
+
+      console.log(chalk.green(`✅ Found ${routines.length} routines\n`));
+      
+      routines.forEach((routine, index) => {
+        const status = routine.isActive ? chalk.green('🟢 Active') : chalk.gray('⚫ Inactive');
+        console.log(chalk.white(`${index + 1}. ${routine.name} ${status}`));
+        console.log(chalk.gray(`   ID: ${routine.id}`));
+        console.log(chalk.gray(`   Description: ${routine.description}`));
+        console.log(chalk.gray(`   Number of steps: ${routine.steps?.length || 0}`));
+        const goal = routineManager?.getGoal(routine.id);
+        if (goal) {
+          const progress = routineManager!.getGoalProgress(routine.id);
+          const color = progress?.met ? chalk.green : chalk.magenta;
+          console.log(color(`   🏁 Goal: ${formatGoalProgress(goal, progress)}`));
+        }
+        console.log(chalk.gray(`   Created: ${new Date(routine.createdAt).toLocaleString()}`));
+        console.log('');
+      });
     } catch (error) {
       console.error(chalk.red('❌ ルーチン一覧取得でエラーが発生しました:'), error);
     }
@@ -533,7 +671,7 @@ export class RoutineCreator {
       // ルーチンIDが指定されていない場合、一覧から選択
       if (!targetRoutineId) {
         console.log(chalk.blue('🗑️  Please select a routine to delete'));
-        targetRoutineId = await this.selectRoutineForDeletion();
+        targetRoutineId = await this.selectRoutine('delete');
         
         if (!targetRoutineId) {
           console.log(chalk.yellow('Deletion cancelled'));
@@ -571,16 +709,16 @@ export class RoutineCreator {
     }
   }
 
-  private async selectRoutineForDeletion(): Promise<string | undefined> {
+  private async selectRoutine(action: 'edit' | 'delete'): Promise<string | undefined> {
     try {
-      const response = await this.apiClient.get('/api/routines');
+      const routines = await this.routineStore.listRoutines();
       
-      if (!response.success || !response.data || response.data.length === 0) {
-        console.log(chalk.yellow('No routines available for deletion'));
+      if (routines.length === 0) {
+        console.log(chalk.yellow(`No routines available to ${action}`));
         return undefined;
       }
 
-      const choices = response.data.map((routine: any) => ({
+      const choices: Array<{ name: string; value: string | undefined; short: string }> = routines.map(routine => ({
         name: `${routine.name} ${routine.isActive ? chalk.green('(Active)') : chalk.gray('(Inactive)')} - ${routine.description}`,
         value: routine.id,
         short: routine.name
@@ -596,7 +734,7 @@ export class RoutineCreator {
         {
           type: 'list',
           name: 'routineId',
-          message: 'Select routine to delete:',
+          message: `Select routine to ${action}:`,
           choices: choices,
           pageSize: 10
         }
@@ -611,13 +749,7 @@ export class RoutineCreator {
 
   private async getRoutineDetails(routineId: string): Promise<any> {
     try {
-      const response = await this.apiClient.get(`/api/routines/${routineId}`);
-      
-      if (response.success && response.data) {
-        return response.data;
-      } else {
-        return null;
-      }
+      return await this.routineStore.getRoutine(routineId);
     } catch (error) {
       console.error(chalk.red('ルーチン詳細の取得に失敗しました:'), error);
       return null;
@@ -654,13 +786,13 @@ export class RoutineCreator {
     try {
       console.log(chalk.blue('🗑️  Deleting routine...'));
       
-      const response = await this.apiClient.delete(`/api/routines/${routineId}`);
-      
-      if (response.success) {
+      if (await this.routineStore.deleteRoutine(routineId)) {
         console.log(chalk.green('✅ Routine deleted successfully'));
-        console.log(chalk.gray('Related execution history has also been deleted'));
+        if (this.routineStore.mode === 'api') {
+          console.log(chalk.gray('Related execution history has also been deleted'));
+        }
       } else {
-        console.error(chalk.red('❌ Failed to delete routine:'), response.message || 'Unknown error');
+        console.error(chalk.red('❌ Specified routine not found'));
       }
     } catch (error: any) {
       if (error.message?.includes('404')) {
@@ -672,4 +804,423 @@ export class RoutineCreator {
       }
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * 既存のルーチンを編集する（対話式または $EDITOR）。保存前に差分を表示する
+   */
+  async editRoutine(routineId?: string, options: { editor?: boolean; yes?: boolean } = {}): Promise<boolean> {
+    try {
+      if (!options.editor && !process.stdin.isTTY) {
+        console.error(chalk.red('❌ Interactive editing needs a terminal. Use --editor to edit the routine in $EDITOR'));
+        return false;
+      }
+
+      let targetRoutineId = routineId;
+      if (!targetRoutineId) {
+        console.log(chalk.blue('✏️  Please select a routine to edit'));
+        targetRoutineId = await this.selectRoutine('edit');
+
+        if (!targetRoutineId) {
+          console.log(chalk.yellow('Edit cancelled'));
+          return false;
+        }
+      }
+
+      const routine: Routine | null = await this.getRoutineDetails(targetRoutineId);
+      if (!routine) {
+        console.log(chalk.red('❌ Specified routine not found'));
+        return false;
+      }
+
+      const original = toPortableRoutine(routine);
+      const edited = options.editor
+        ? await this.editInEditor(original)
+        : await this.editInteractively(original);
+      if (!edited) {
+        console.log(chalk.yellow('Edit cancelled'));
+        return false;
+      }
+
+      const diff = createUnifiedDiff(`${routine.name}.yaml`, YAML.stringify(original), YAML.stringify(edited));
+      if (!diff) {
+        console.log(chalk.yellow('No changes'));
+        return true;
+      }
+
+      console.log(chalk.cyan('\n📝 Changes:'));
+      printDiff(diff);
+
+      if (!options.yes) {
+        const { confirmed } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirmed',
+            message: 'Save these changes?',
+            default: true
+          }
+        ]);
+        if (!confirmed) {
+          console.log(chalk.yellow('Edit cancelled'));
+          return false;
+        }
+      }
+
+      if (!await this.routineStore.saveRoutine(routine.id, parseRoutineDefinition(edited))) {
+        console.error(chalk.red('❌ Specified routine not found'));
+        return false;
+      }
+      console.log(chalk.green(`✅ Routine updated: ${edited.name}`));
+      return true;
+    } catch (error: any) {
+      if (error instanceof Error && error.name === 'ExitPromptError') {
+        console.log(chalk.yellow('\nOperation cancelled'));
+      } else if (error.message?.includes('403')) {
+        console.error(chalk.red('❌ You do not have permission to edit this routine'));
+      } else {
+        console.error(chalk.red('❌ Error occurred during routine edit:'), error instanceof Error ? error.message : error);
+      }
+      return false;
+    }
+  }
+
+  private async editInteractively(routine: PortableRoutine): Promise<PortableRoutine | null> {
+    let draft: PortableRoutine = structuredClone(routine);
+
+    while (true) {
+      const { target } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'target',
+          message: 'What do you want to edit?',
+          pageSize: 15,
+          choices: [
+            { name: `Name: ${draft.name}`, value: 'name' },
+            { name: `Description: ${draft.description}`, value: 'description' },
+            { name: `Active: ${draft.isActive ? chalk.green('Yes') : chalk.gray('No')}`, value: 'active' },
+            ...draft.steps.map((step, index) => ({
+              name: `Step ${index + 1}: [${step.type}] ${truncate(step.content, 60)}`,
+              value: index
+            })),
+            new inquirer.Separator(),
+            { name: 'Add, remove or reorder steps', value: 'steps' },
+            { name: 'Edit everything in $EDITOR', value: 'editor' },
+            { name: chalk.green('Review changes and save'), value: 'save' },
+            { name: chalk.gray('Cancel'), value: 'cancel' }
+          ]
+        }
+      ]);
+
+      if (typeof target === 'number') {
+        draft.steps[target] = await this.promptStep(draft.steps[target]);
+        continue;
+      }
+
+      switch (target) {
+        case 'name': {
+          const { name } = await inquirer.prompt([
+            {
+              type: 'input',
+              name: 'name',
+              message: 'Routine name:',
+              default: draft.name,
+              validate: (input: string) => input.trim().length > 0 || 'Please enter a routine name'
+            }
+          ]);
+          draft.name = name.trim();
+          break;
+        }
+        case 'description': {
+          const { description } = await inquirer.prompt([
+            {
+              type: 'input',
+              name: 'description',
+              message: 'Routine description:',
+              default: draft.description
+            }
+          ]);
+          draft.description = description.trim();
+          break;
+        }
+        case 'active':
+          draft.isActive = !draft.isActive;
+          break;
+        case 'steps': {
+          const steps = await this.customizeSteps(draft.steps.map((step, index) => ({
+            ...step,
+            type: step.type as RoutineStep['type'],
+            order: index
+          })));
+          draft.steps = steps.map(({ order, ...step }) => step);
+          break;
+        }
+        case 'editor': {
+          const edited = await this.editInEditor(draft);
+          if (edited) {
+            draft = edited;
+          }
+          break;
+        }
+        case 'save':
+          return draft;
+        default:
+          return null;
+      }
+    }
+  }
+
+  /**
+   * ステップの種類・内容・パラメータ（JSON）を入力する（step 指定時はその値を初期値にする）
+   */
+  private async promptStep(step?: PortableStep): Promise<Omit<RoutineStep, 'order'>> {
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'type',
+        message: 'Step type:',
+        choices: ['action', 'condition', 'loop'],
+        default: step?.type ?? 'action'
+      },
+      {
+        type: 'input',
+        name: 'content',
+        message: 'Step content:',
+        default: step?.content,
+        validate: (input: string) => input.trim().length > 0 || 'Please enter the step content'
+      },
+      {
+        type: 'input',
+        name: 'parameters',
+        message: 'Parameters (JSON, empty for none):',
+        default: step?.parameters !== undefined ? JSON.stringify(step.parameters) : '',
+        validate: (input: string) => {
+          if (!input.trim()) {
+            return true;
+          }
+          try {
+            JSON.parse(input);
+            return true;
+          } catch (error) {
+            return 'Please enter valid JSON';
+          }
+        }
+      }
+    ]);
+
+    return {
+      type: answers.type,
+      content: answers.content.trim(),
+      ...(answers.parameters.trim() ? { parameters: JSON.parse(answers.parameters) } : {})
+    };
+  }
+
+  /**
+   * ルーチンを YAML として $VISUAL / $EDITOR で編集する（中断した場合は null）
+   */
+  private async editInEditor(routine: PortableRoutine): Promise<PortableRoutine | null> {
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aireer-routine-'));
+    const filepath = path.join(directory, 'routine.yaml');
+    const header = [
+      '# Edit the routine below, then save and close the editor.',
+      '# Step types: action, condition, loop. Steps run in the order listed.',
+      '# Variables: "variables: { topic: { type: string, default: rust } }", used in steps as {{topic}}.',
+      '# Lines starting with # are ignored.',
+      ''
+    ].join('\n');
+
+    try {
+      fs.writeFileSync(filepath, header + YAML.stringify(routine), 'utf-8');
+
+      while (true) {
+        const result = spawnSync(`${editor} "${filepath}"`, { stdio: 'inherit', shell: true });
+        if (result.error || result.status !== 0) {
+          console.error(chalk.red(`❌ Editor exited with an error: ${result.error?.message ?? `exit code ${result.status}`}`));
+          return null;
+        }
+
+        try {
+          const definition = parseRoutineDefinition(YAML.parse(fs.readFileSync(filepath, 'utf-8')));
+          return {
+            name: definition.name,
+            description: definition.description,
+            isActive: definition.isActive,
+            ...(definition.variables ? { variables: definition.variables } : {}),
+            steps: definition.steps.map(step => ({
+              type: step.type,
+              content: step.content,
+              ...(step.parameters !== undefined ? { parameters: step.parameters } : {})
+            }))
+          };
+        } catch (error) {
+          console.error(chalk.red(`❌ Invalid routine: ${error instanceof Error ? error.message : error}`));
+          if (!process.stdin.isTTY) {
+            return null;
+          }
+          const { reopen } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'reopen',
+              message: 'Re-open the editor?',
+              default: true
+            }
+          ]);
+          if (!reopen) {
+            return null;
+          }
+        }
+      }
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * ルーチンをエクスポートする（routineIds が空の場合はすべて、output 未指定時は標準出力）
+   */
+  async exportRoutines(routineIds: string[], routineManager: RoutineManager, output?: string, format?: ExportFormat): Promise<boolean> {
+    // 標準出力に書き出す場合、メッセージは標準エラー出力に出す
+    const log = output ? console.log : console.error;
+
+    let routines: Routine[] = [];
+    if (routineIds.length === 0) {
+      try {
+        routines = await this.routineStore.listRoutines();
+      } catch (error) {
+        log(chalk.red(`❌ Failed to fetch routines: ${error instanceof Error ? error.message : error}`));
+        return false;
+      }
+    }
+    for (const routineId of routineIds) {
+      const routine = await this.routineStore.getRoutine(routineId).catch(() => null);
+      if (!routine) {
+        log(chalk.red(`❌ Routine ${routineId} not found`));
+        return false;
+      }
+      routines.push(routine);
+    }
+
+    if (routines.length === 0) {
+      log(chalk.yellow('📝 No routines to export'));
+      return false;
+    }
+
+    const portable = routines.map(routine => toPortableRoutine(routine, routineManager.getPrioritySettings(routine.id)));
+    const content = serializeExport(portable, format ?? detectFormat(output));
+    if (!output) {
+      process.stdout.write(content);
+      return true;
+    }
+
+    fs.writeFileSync(output, content);
+    console.log(chalk.green(`✅ Exported ${routines.length} routine(s) to ${output}`));
+    routines.forEach(routine => console.log(chalk.gray(`   ${routine.name} (${routine.steps?.length || 0} steps)`)));
+    return true;
+  }
+
+  /**
+   * ファイルからルーチンをインポートする（同じ名前のルーチンは onDuplicate に従い、未指定時は確認する）
+   */
+  async importRoutines(filepath: string, routineManager: RoutineManager, onDuplicate?: DuplicateAction): Promise<boolean> {
+    let imported: ImportedRoutine[];
+    try {
+      imported = parseImportFile(fs.readFileSync(filepath, 'utf-8'), filepath);
+    } catch (error) {
+      console.log(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+      return false;
+    }
+
+    let existing: Routine[];
+    try {
+      existing = await this.routineStore.listRoutines();
+    } catch (error) {
+      console.log(chalk.red(`❌ Failed to fetch routines: ${error instanceof Error ? error.message : error}`));
+      return false;
+    }
+
+    console.log(chalk.blue(`📥 Importing ${imported.length} routine(s) from ${filepath} into ${this.routineStore.describe()}`));
+    const counts = { created: 0, updated: 0, skipped: 0, failed: 0 };
+
+    for (const { routine, priority, weight } of imported) {
+      const duplicate = existing.find(r => r.name.toLowerCase() === routine.name.toLowerCase());
+      const action = duplicate ? onDuplicate ?? await this.askDuplicateAction(routine.name) : undefined;
+
+      try {
+        if (duplicate && action === 'skip') {
+          console.log(chalk.gray(`⏭️  Skipped ${routine.name} (already exists as ${duplicate.id})`));
+          counts.skipped++;
+          continue;
+        }
+
+        let routineId: string;
+        if (duplicate && action === 'update') {
+          const { name, ...changes } = routine;
+          if (!(await this.routineStore.updateRoutine(duplicate.id, changes))) {
+            throw new Error('the existing routine could not be updated');
+          }
+          routineId = duplicate.id;
+          console.log(chalk.green(`🔄 Updated ${routine.name} (${routineId})`));
+          counts.updated++;
+        } else {
+          const name = duplicate ? uniqueName(routine.name, existing) : routine.name;
+          const created = await this.routineStore.createRoutine({ ...routine, name });
+          existing.push(created);
+          routineId = created.id;
+          console.log(chalk.green(`➕ Created ${name} (${routineId})`));
+          counts.created++;
+        }
+
+        if (priority !== undefined || weight !== undefined) {
+          routineManager.setPrioritySettings(routineId, { priority, weight });
+        }
+      } catch (error) {
+        console.log(chalk.red(`❌ Failed to import ${routine.name}: ${error instanceof Error ? error.message : error}`));
+        counts.failed++;
+      }
+    }
+
+    console.log(chalk.blue(`\n📊 Created: ${counts.created}  |  Updated: ${counts.updated}  |  Skipped: ${counts.skipped}  |  Failed: ${counts.failed}`));
+    return counts.failed === 0;
+  }
+
+  private async askDuplicateAction(name: string): Promise<DuplicateAction> {
+    if (!process.stdin.isTTY) {
+      console.log(chalk.yellow(`⚠️  A routine named "${name}" already exists; skipping it (use --on-duplicate to choose)`));
+      return 'skip';
+    }
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: `A routine named "${name}" already exists:`,
+        choices: [
+          { name: 'Update the existing routine', value: 'update' },
+          { name: 'Skip', value: 'skip' },
+          { name: 'Import with a new name', value: 'rename' }
+        ]
+      }
+    ]);
+    return action;
+  }
+}
+
+/**
+ * 既存のルーチンと重ならない名前を返す（例: "Report (2)"）
+ */
+function uniqueName(name: string, routines: Routine[]): string {
+  const names = new Set(routines.map(routine => routine.name.toLowerCase()));
+  let suffix = 2;
+  while (names.has(`${name} (${suffix})`.toLowerCase())) {
+    suffix++;
+  }
+  return `${name} (${suffix})`;
+}
+
+function truncate(text: string, length: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+function renumberSteps(steps: RoutineStep[]): RoutineStep[] {
+  return steps.map((step, index) => ({ ...step, order: index }));
+}
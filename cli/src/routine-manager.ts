@@ -1,25 +1,12 @@
 import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ApiClient } from './api-client.js';
 import { AuthManager } from './auth-manager.js';
-
-interface Routine {
-  id: string;
-  name: string;
-  description: string;
-  isActive: boolean;
-  steps: RoutineStep[];
-}
-
-interface RoutineStep {
-  id: string;
-  routineId: string;
-  order: number;
-  type: string;
-  content: string;
-  parameters?: any;
-}
+import { RoutineGoal, GoalProgress, formatGoalProgress } from './goal-evaluator.js';
+import { BudgetManager, formatRemaining } from './budget-manager.js';
+import { RoutineSchedule, DailyRuns, getNextEligibleTime, getLocalDate, formatSchedule } from './routine-schedule.js';
+import { Routine, RoutineStore, createRoutineStore } from './routine-store.js';
+import { RateLimitHandler } from './rate-limit-handler.js';
 
 interface RoutinePriority {
   routineId: string;
@@ -30,42 +17,60 @@ interface RoutinePriority {
   successRate: number;
 }
 
+// 以前の形式では操作数の上限を priorities に保存していた
+type LegacyRoutinePriority = RoutinePriority & { maxOperationsPerResponse?: number };
+
+// ルーチンのゴールと直近の判定結果（サーバーで非アクティブになっても保持する）
+interface RoutineGoalEntry {
+  routineId: string;
+  goal: RoutineGoal;
+  progress?: GoalProgress;
+}
+
+// ルーチンごとの cron・時間帯・クールダウン・1日の上限と、schedule.timezone の日付ごとの実行回数、操作数の上限
+// （アクティブなルーチンの一覧から外れても保持する）
+interface RoutineScheduleEntry {
+  routineId: string;
+  schedule?: RoutineSchedule;
+  dailyRuns?: DailyRuns;
+  maxOperationsPerResponse?: number; // 1回のLLMレスポンスで許可する操作数（未設定時はグローバル設定）
+}
+
 interface RoutineConfig {
   priorities: RoutinePriority[];
+  goals?: RoutineGoalEntry[];
+  schedules?: RoutineScheduleEntry[];
   globalSettings: {
     maxExecutionsPerCycle: number;
     cooldownPeriod: number; // 秒
     minimumInterval: number; // 秒
+    maxOperationsPerResponse: number;
   };
 }
 
+const DEFAULT_MAX_OPERATIONS_PER_RESPONSE = 10;
+
 export class RoutineManager {
   private configFile: string;
-  private apiClient: ApiClient;
+  private routineStore: RoutineStore;
   private config: RoutineConfig;
   private authManager?: AuthManager;
+  private budgetManager: BudgetManager;
 
   constructor(apiUrl: string, configDirectory: string = '.', authManager?: AuthManager) {
-    this.apiClient = new ApiClient(apiUrl);
+    this.routineStore = createRoutineStore(apiUrl, configDirectory, authManager);
     this.authManager = authManager;
     
-    // 認証トークンを設定
-    if (authManager) {
-      const token = authManager.getConfigManager().getToken();
-      if (token) {
-        this.apiClient.setAuthToken(token);
-      }
-    }
-    
     this.configFile = path.join(configDirectory, '.aireer-priorities.json');
     this.config = this.loadConfig();
+    this.budgetManager = new BudgetManager(configDirectory);
   }
 
   private loadConfig(): RoutineConfig {
     try {
       if (fs.existsSync(this.configFile)) {
         const data = fs.readFileSync(this.configFile, 'utf-8');
-        return JSON.parse(data);
+        return this.migrateConfig(JSON.parse(data));
       }
     } catch (error) {
       console.log(chalk.yellow('⚠️  Failed to load configuration file. Using default settings.'));
@@ -77,11 +82,30 @@ export class RoutineManager {
       globalSettings: {
         maxExecutionsPerCycle: 3,
         cooldownPeriod: 300, // 5分
-        minimumInterval: 60   // 1分
+        minimumInterval: 60,  // 1分
+        maxOperationsPerResponse: DEFAULT_MAX_OPERATIONS_PER_RESPONSE
       }
     };
   }
 
+  private migrateConfig(config: RoutineConfig): RoutineConfig {
+    for (const priority of config.priorities as LegacyRoutinePriority[]) {
+      if (priority.maxOperationsPerResponse === undefined) {
+        continue;
+      }
+      let entry = config.schedules?.find(s => s.routineId === priority.routineId);
+      if (!entry) {
+        entry = { routineId: priority.routineId };
+        config.schedules = [...(config.schedules ?? []), entry];
+      }
+      if (entry.maxOperationsPerResponse === undefined) {
+        entry.maxOperationsPerResponse = priority.maxOperationsPerResponse;
+      }
+      delete priority.maxOperationsPerResponse;
+    }
+    return config;
+  }
+
   private saveConfig(): void {
     try {
       fs.writeFileSync(this.configFile, JSON.stringify(this.config, null, 2));
@@ -90,16 +114,18 @@ export class RoutineManager {
     }
   }
 
+  getRoutineStore(): RoutineStore {
+    return this.routineStore;
+  }
+
   async fetchActiveRoutines(): Promise<Routine[]> {
     try {
-      const response = await this.apiClient.get('/api/routines?active=true');
-      if (response.success && response.data) {
-        return response.data;
-      }
-      // Case when API response is successful but data is empty
-      console.log(chalk.gray('📝 No active routines available'));
-      return [];
+      return await this.routineStore.listRoutines(true);
     } catch (error) {
+      // Rate limits are handled by the autonomous cycle (longer interval, circuit breaker)
+      if (RateLimitHandler.isRateLimitError(error)) {
+        throw error;
+      }
       // Determine whether HTTP 500 error is due to authentication or no routines
       if (error instanceof Error) {
         if (error.message.includes('401') || error.message.includes('403')) {
@@ -157,20 +183,26 @@ export class RoutineManager {
     const now = new Date();
     const currentTime = now.getTime();
 
-    // クールダウン中のルーチンを除外
-    const availableRoutines = routines.filter(routine => {
-      const priority = this.config.priorities.find(p => p.routineId === routine.id);
-      if (!priority || !priority.lastExecuted) {
-        return true;
+    // クールダウン中、cron の時刻前、時間帯の外、1日の上限に達したルーチンを除外
+    let availableRoutines = routines.filter(routine => {
+      try {
+        const nextTime = this.getNextEligibleTime(routine.id, now);
+        return nextTime !== null && nextTime.getTime() <= currentTime;
+      } catch (error) {
+        console.log(chalk.yellow(`⚠️  Skipping ${routine.name}: invalid schedule (${error instanceof Error ? error.message : error})`));
+        return false;
       }
-
-      const lastExecuted = new Date(priority.lastExecuted).getTime();
-      const cooldownMs = this.config.globalSettings.cooldownPeriod * 1000;
-      return (currentTime - lastExecuted) > cooldownMs;
     });
 
+    // Routines whose goal has been met are finished and not selected again
+    const unfinishedRoutines = availableRoutines.filter(routine => !this.isGoalMet(routine.id));
+    if (unfinishedRoutines.length < availableRoutines.length) {
+      console.log(chalk.gray(`🏁 Skipping ${availableRoutines.length - unfinishedRoutines.length} routine(s) whose goal has been met`));
+      availableRoutines = unfinishedRoutines;
+    }
+
     if (availableRoutines.length === 0) {
-      console.log(chalk.yellow('⏸️  All routines are in cooldown'));
+      console.log(chalk.yellow('⏸️  All routines are in cooldown, outside their schedule or have met their goal'));
       return null;
     }
 
@@ -210,6 +242,12 @@ export class RoutineManager {
   }
 
   recordExecution(routineId: string, success: boolean): void {
+    const entry = this.getScheduleEntry(routineId, true)!;
+    const date = getLocalDate(new Date(), entry.schedule?.timezone);
+    entry.dailyRuns = entry.dailyRuns?.date === date
+      ? { date, count: entry.dailyRuns.count + 1 }
+      : { date, count: 1 };
+
     const priority = this.config.priorities.find(p => p.routineId === routineId);
     if (priority) {
       priority.lastExecuted = new Date().toISOString();
@@ -218,11 +256,139 @@ export class RoutineManager {
       // Update success rate (exponential moving average)
       const alpha = 0.2; // Learning rate
       priority.successRate = alpha * (success ? 1 : 0) + (1 - alpha) * priority.successRate;
-      
+    }
+    this.saveConfig();
+  }
+
+  /**
+   * 同じサイクルで重複して選ばれないよう、実行開始時点で最終実行日時だけを更新する
+   */
+  markSelected(routineId: string): void {
+    const priority = this.config.priorities.find(p => p.routineId === routineId);
+    if (priority) {
+      priority.lastExecuted = new Date().toISOString();
       this.saveConfig();
     }
   }
 
+  private getScheduleEntry(routineId: string, create: boolean = false): RoutineScheduleEntry | undefined {
+    let entry = this.config.schedules?.find(s => s.routineId === routineId);
+    if (!entry && create) {
+      entry = { routineId };
+      this.config.schedules = [...(this.config.schedules ?? []), entry];
+    }
+    return entry;
+  }
+
+  getSchedule(routineId: string): RoutineSchedule | undefined {
+    return this.getScheduleEntry(routineId)?.schedule;
+  }
+
+  /**
+   * スケジュールを更新する（指定した項目だけを上書きし、undefined の項目は削除する）
+   * ゴールと同じく、自律モードでまだ選択対象になっていないルーチンにも設定できる
+   */
+  setSchedule(routineId: string, changes: Partial<RoutineSchedule>): void {
+    const entry = this.getScheduleEntry(routineId, true)!;
+    const schedule: RoutineSchedule = { ...entry.schedule, ...changes };
+    // cron を変更した時点より前の時刻では実行しない
+    if ('cron' in changes && changes.cron !== entry.schedule?.cron) {
+      schedule.since = changes.cron ? new Date().toISOString() : undefined;
+    }
+    for (const key of Object.keys(schedule) as Array<keyof RoutineSchedule>) {
+      if (schedule[key] === undefined) {
+        delete schedule[key];
+      }
+    }
+
+    entry.schedule = Object.keys(schedule).length > 0 ? schedule : undefined;
+    this.saveConfig();
+  }
+
+  clearSchedule(routineId: string): boolean {
+    const entry = this.getScheduleEntry(routineId);
+    if (!entry?.schedule) {
+      return false;
+    }
+    delete entry.schedule;
+    this.saveConfig();
+    return true;
+  }
+
+  /**
+   * 次に実行できる時刻（実行できる時刻がない場合は null）
+   * クールダウンはルーチンの設定（未設定時はグローバル設定）で、minimumInterval より短くはならない
+   */
+  getNextEligibleTime(routineId: string, now: Date = new Date()): Date | null {
+    const priority = this.config.priorities.find(p => p.routineId === routineId);
+    const entry = this.getScheduleEntry(routineId);
+    if (!priority && !entry) {
+      return now;
+    }
+
+    const { cooldownPeriod, minimumInterval } = this.config.globalSettings;
+    const cooldown = Math.max(entry?.schedule?.cooldown ?? cooldownPeriod, minimumInterval ?? 0);
+    return getNextEligibleTime(entry?.schedule, priority?.lastExecuted, entry?.dailyRuns, cooldown, now);
+  }
+
+  getMaxOperationsPerResponse(routineId: string): number {
+    return this.getScheduleEntry(routineId)?.maxOperationsPerResponse
+      ?? this.config.globalSettings.maxOperationsPerResponse
+      ?? DEFAULT_MAX_OPERATIONS_PER_RESPONSE;
+  }
+
+  getGoal(routineId: string): RoutineGoal | undefined {
+    return this.config.goals?.find(g => g.routineId === routineId)?.goal;
+  }
+
+  getGoalProgress(routineId: string): GoalProgress | undefined {
+    return this.config.goals?.find(g => g.routineId === routineId)?.progress;
+  }
+
+  isGoalMet(routineId: string): boolean {
+    return this.getGoalProgress(routineId)?.met === true;
+  }
+
+  /**
+   * ゴールを設定する（以前の判定結果はリセットされる）
+   */
+  setGoal(routineId: string, goal: RoutineGoal): void {
+    this.clearGoal(routineId);
+    this.config.goals = [...(this.config.goals ?? []), { routineId, goal }];
+    this.saveConfig();
+  }
+
+  clearGoal(routineId: string): boolean {
+    const goals = this.config.goals ?? [];
+    this.config.goals = goals.filter(g => g.routineId !== routineId);
+    this.saveConfig();
+    return this.config.goals.length < goals.length;
+  }
+
+  getGoals(): RoutineGoalEntry[] {
+    return this.config.goals ?? [];
+  }
+
+  recordGoalProgress(routineId: string, progress: GoalProgress): void {
+    const entry = this.config.goals?.find(g => g.routineId === routineId);
+    if (entry) {
+      entry.progress = progress;
+      this.saveConfig();
+    }
+  }
+
+  /**
+   * ゴールを達成したルーチンを非アクティブにする（ローカルのルーチンはファイルを書き換える）
+   */
+  async deactivateRoutine(routineId: string): Promise<boolean> {
+    try {
+      return await this.routineStore.updateRoutine(routineId, { isActive: false });
+    } catch (error) {
+      console.log(chalk.yellow(`⚠️  Failed to deactivate routine ${routineId}: ${error instanceof Error ? error.message : error}`));
+      return false;
+    }
+  }
+
   async getRoutinePriorityInfo(): Promise<void> {
     console.log(chalk.blue('\n📊 Current routine priority settings:'));
 
@@ -250,7 +416,19 @@ export class RoutineManager {
       // Display each routine in a readable format
       console.log(chalk.cyan(`\n📋 ${routineName} (ID: ${priority.routineId.substring(0, 10)})`));
       console.log(chalk.gray(`   Priority: ${priority.priority}/10  |  Weight: ${priority.weight.toFixed(2)}  |  Executions: ${priority.executionCount}  |  Success rate: ${(priority.successRate * 100).toFixed(1)}%`));
-      console.log(chalk.gray(`   Last executed: ${lastExecuted}`));
+      console.log(chalk.gray(`   Last executed: ${lastExecuted}  |  Max operations/response: ${this.getMaxOperationsPerResponse(priority.routineId)}`));
+      console.log(chalk.gray(`   💰 Budget today: ${formatRemaining(this.budgetManager.getRoutineBudget(priority.routineId))}`));
+      const scheduleEntry = this.getScheduleEntry(priority.routineId);
+      if (scheduleEntry?.schedule) {
+        const { schedule, dailyRuns } = scheduleEntry;
+        const runsToday = dailyRuns?.date === getLocalDate(new Date(), schedule.timezone) ? dailyRuns.count : 0;
+        console.log(chalk.blue(`   ⏰ Schedule: ${formatSchedule(schedule)}  |  Runs today: ${runsToday}`));
+      }
+      console.log(chalk.gray(`   Next eligible run: ${this.formatNextEligibleTime(priority.routineId)}`));
+      const goal = this.getGoal(priority.routineId);
+      if (goal) {
+        console.log(chalk.magenta(`   🏁 Goal: ${formatGoalProgress(goal, this.getGoalProgress(priority.routineId))}`));
+      }
       console.log(chalk.yellow(`   📝 Description: ${description}`));
       console.log(chalk.green(`   🔧 Prompt: ${firstStepContent.length > 80 ? firstStepContent.substring(0, 80) + '...' : firstStepContent}`));
     }
@@ -259,6 +437,48 @@ export class RoutineManager {
     console.log(chalk.gray(`Max executions/cycle: ${this.config.globalSettings.maxExecutionsPerCycle}`));
     console.log(chalk.gray(`Cooldown period: ${this.config.globalSettings.cooldownPeriod} seconds`));
     console.log(chalk.gray(`Minimum interval: ${this.config.globalSettings.minimumInterval} seconds`));
+    console.log(chalk.gray(`Max operations/response: ${this.config.globalSettings.maxOperationsPerResponse ?? DEFAULT_MAX_OPERATIONS_PER_RESPONSE}`));
+    console.log(chalk.gray(`LLM budget today: ${formatRemaining(this.budgetManager.getDailyBudget())}`));
+  }
+
+  formatNextEligibleTime(routineId: string): string {
+    let nextTime: Date | null;
+    try {
+      nextTime = this.getNextEligibleTime(routineId);
+    } catch (error) {
+      return `invalid schedule (${error instanceof Error ? error.message : error})`;
+    }
+    if (!nextTime) {
+      return 'never (no matching time)';
+    }
+    if (nextTime.getTime() <= Date.now()) {
+      return 'now';
+    }
+    const timezone = this.getSchedule(routineId)?.timezone;
+    return timezone ? `${nextTime.toLocaleString('en-US', { timeZone: timezone })} (${timezone})` : nextTime.toLocaleString();
+  }
+
+  getPrioritySettings(routineId: string): { priority: number; weight: number } | undefined {
+    const priority = this.config.priorities.find(p => p.routineId === routineId);
+    return priority ? { priority: priority.priority, weight: priority.weight } : undefined;
+  }
+
+  /**
+   * 優先度と重みを設定する（インポート用、まだ登録されていないルーチンは登録する）
+   */
+  setPrioritySettings(routineId: string, settings: { priority?: number; weight?: number }): void {
+    let priority = this.config.priorities.find(p => p.routineId === routineId);
+    if (!priority) {
+      priority = { routineId, priority: 5, weight: 1.0, executionCount: 0, successRate: 1.0 };
+      this.config.priorities.push(priority);
+    }
+    if (settings.priority !== undefined) {
+      priority.priority = Math.max(1, Math.min(10, settings.priority));
+    }
+    if (settings.weight !== undefined) {
+      priority.weight = Math.max(0.1, Math.min(5.0, settings.weight));
+    }
+    this.saveConfig();
   }
 
   adjustPriority(routineId: string, newPriority: number): boolean {
@@ -284,4 +504,16 @@ export class RoutineManager {
     console.log(chalk.red(`❌ Routine ${routineId} not found`));
     return false;
   }
-} 
\ No newline at end of file
+
+  adjustMaxOperations(routineId: string, maxOperations: number): boolean {
+    if (this.config.priorities.some(p => p.routineId === routineId) || this.getScheduleEntry(routineId)) {
+      const entry = this.getScheduleEntry(routineId, true)!;
+      entry.maxOperationsPerResponse = Math.max(1, Math.floor(maxOperations));
+      this.saveConfig();
+      console.log(chalk.green(`✅ Set max operations per response of routine ${routineId} to ${entry.maxOperationsPerResponse}`));
+      return true;
+    }
+    console.log(chalk.red(`❌ Routine ${routineId} not found`));
+    return false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,416 @@
+// 実行を許可する時間帯（end が start 以前の場合は翌日の end まで）
+export interface TimeWindow {
+  days: number[]; // 0（日）〜 6（土）
+  start: string;  // HH:MM
+  end: string;    // HH:MM（24:00 まで指定可）
+}
+
+export interface RoutineSchedule {
+  cron?: string;          // 5フィールドの cron 式（分 時 日 月 曜日）。一致した時刻ごとに1回実行できる
+  windows?: TimeWindow[]; // いずれかの時間帯に含まれるときだけ実行する
+  timezone?: string;      // cron と時間帯のタイムゾーン（IANA 名、未設定時はシステムのタイムゾーン）
+  cooldown?: number;      // 前回の実行からの待ち時間（秒、未設定時はグローバル設定）
+  maxRunsPerDay?: number; // 1日（timezone の日付）あたりの最大実行回数
+  since?: string;         // cron を設定した日時（実行前の cron の起点）
+}
+
+// 1日あたりの実行回数（date は timezone の日付 YYYY-MM-DD）
+export interface DailyRuns {
+  date: string;
+  count: number;
+}
+
+interface CronFields {
+  minutes: number[];
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+interface LocalTime {
+  date: string;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// 探索の上限（cron は一致しない日を1日単位で飛ばすため5年分と一致する日の時間単位の探索、時間帯は1時間単位で8日分）
+const CRON_SEARCH_STEPS = 5 * 366 + 3 * 24 * 2;
+const WINDOW_SEARCH_STEPS = 8 * 24 * 2;
+// 各月の最大日数（うるう年の2月を含む）
+const MONTH_DAYS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function getLocalTime(time: number, timezone?: string): LocalTime {
+  const key = timezone ?? '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short'
+    });
+    formatters.set(key, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(time)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour) % 24,
+    minute: parseInt(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase())
+  };
+}
+
+export function getLocalDate(time: Date, timezone?: string): string {
+  return getLocalTime(time.getTime(), timezone).date;
+}
+
+function floorToMinute(time: number): number {
+  return time - (time % MINUTE_MS);
+}
+
+function parseValue(value: string, names: string[] | undefined, offset: number): number {
+  const index = names ? names.indexOf(value.toLowerCase()) : -1;
+  if (index !== -1) {
+    return index + offset;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid value "${value}"`);
+  }
+  return parseInt(value);
+}
+
+function parseField(field: string, min: number, max: number, label: string, names?: string[], nameOffset: number = 0): Set<number> {
+  const values = new Set<number>();
+  for (const item of field.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText);
+    if (!Number.isInteger(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Invalid step "${stepText}" in the ${label} field`);
+    }
+
+    let from: number;
+    let to: number;
+    try {
+      if (range === '*' || range === '?') {
+        [from, to] = [min, max];
+      } else if (range.includes('-')) {
+        const [start, end] = range.split('-');
+        [from, to] = [parseValue(start, names, nameOffset), parseValue(end, names, nameOffset)];
+      } else {
+        from = parseValue(range, names, nameOffset);
+        to = stepText === undefined ? from : max;
+      }
+    } catch (error: any) {
+      throw new Error(`${error.message} in the ${label} field`);
+    }
+    if (from < min || to > max || from > to) {
+      throw new Error(`"${item}" is out of range for the ${label} field (${min}-${max})`);
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * cron 式（分 時 日 月 曜日）を解析する（不正な場合は例外）
+ */
+function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`A cron expression needs 5 fields (minute hour day month weekday): "${expression}"`);
+  }
+
+  const weekdays = parseField(fields[4], 0, 7, 'weekday', WEEKDAY_NAMES);
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes: [...parseField(fields[0], 0, 59, 'minute')].sort((a, b) => a - b),
+    hours: parseField(fields[1], 0, 23, 'hour'),
+    days: parseField(fields[2], 1, 31, 'day'),
+    months: parseField(fields[3], 1, 12, 'month', MONTH_NAMES, 1),
+    weekdays,
+    anyDay: fields[2] === '*' || fields[2] === '?',
+    anyWeekday: fields[4] === '*' || fields[4] === '?'
+  };
+}
+
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+// 日と曜日の両方が指定されている場合はどちらかに一致すればよい（標準の cron と同じ）
+function matchesDay(cron: CronFields, local: LocalTime): boolean {
+  const day = cron.days.has(local.day);
+  const weekday = cron.weekdays.has(local.weekday);
+  if (cron.anyDay || cron.anyWeekday) {
+    return day && weekday;
+  }
+  return day || weekday;
+}
+
+// 日だけで判定される場合（曜日が *）、指定した月に存在しない日（2月30日など）には一致しない
+function canMatchAnyDay(cron: CronFields): boolean {
+  if (cron.anyDay || !cron.anyWeekday) {
+    return true;
+  }
+  return [...cron.months].some(month => [...cron.days].some(day => day <= MONTH_DAYS[month - 1]));
+}
+
+/**
+ * 翌日（timezone の日付）の 0:00 を求める（夏時間の切り替えで日の長さが変わってもその日の最初の時刻に合わせる）
+ */
+function nextLocalMidnight(time: number, local: LocalTime, timezone?: string): number {
+  const next = time + ((23 - local.hour) * 60 + (60 - local.minute)) * MINUTE_MS;
+  const nextLocal = getLocalTime(next, timezone);
+  if (nextLocal.date === local.date) {
+    return next;
+  }
+  return next - (nextLocal.hour * 60 + nextLocal.minute) * MINUTE_MS;
+}
+
+/**
+ * after より後で cron 式に一致する最初の時刻（見つからない場合は null）
+ * 月・日が一致しない日は1日単位、時が一致しない時間は1時間単位で飛ばす
+ */
+function nextCronTime(cron: CronFields, after: number, timezone?: string): number | null {
+  if (!canMatchAnyDay(cron)) {
+    return null;
+  }
+
+  let time = floorToMinute(after) + MINUTE_MS;
+  for (let step = 0; step < CRON_SEARCH_STEPS; step++) {
+    const local = getLocalTime(time, timezone);
+    if (!cron.months.has(local.month) || !matchesDay(cron, local)) {
+      time = nextLocalMidnight(time, local, timezone);
+      continue;
+    }
+    const nextHour = time + (60 - local.minute) * MINUTE_MS;
+    if (!cron.hours.has(local.hour)) {
+      time = nextHour;
+      continue;
+    }
+
+    const minute = cron.minutes.find(m => m >= local.minute);
+    if (minute === local.minute) {
+      return time;
+    }
+    time = minute === undefined ? nextHour : time + (minute - local.minute) * MINUTE_MS;
+  }
+  return null;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(value => parseInt(value));
+  return hours * 60 + minutes;
+}
+
+function isInWindow(window: TimeWindow, local: LocalTime): boolean {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const now = local.hour * 60 + local.minute;
+  if (start < end) {
+    return window.days.includes(local.weekday) && now >= start && now < end;
+  }
+  const yesterday = (local.weekday + 6) % 7;
+  return (window.days.includes(local.weekday) && now >= start) || (window.days.includes(yesterday) && now < end);
+}
+
+/**
+ * time 以降でいずれかの時間帯に含まれる最初の時刻（見つからない場合は null）
+ */
+function nextWindowTime(time: number, windows: TimeWindow[], timezone?: string): number | null {
+  for (let step = 0; step < WINDOW_SEARCH_STEPS; step++) {
+    const local = getLocalTime(time, timezone);
+    if (windows.some(window => isInWindow(window, local))) {
+      return time;
+    }
+
+    // 次の正時か、この1時間のうちに始まる時間帯の開始時刻まで進める
+    const now = local.hour * 60 + local.minute;
+    let jump = 60 - local.minute;
+    for (const window of windows) {
+      const start = toMinutes(window.start);
+      if (start > now && start - now < jump) {
+        jump = start - now;
+      }
+    }
+    time = floorToMinute(time) + jump * MINUTE_MS;
+  }
+  return null;
+}
+
+function startOfNextDay(time: number, timezone?: string): number {
+  const today = getLocalTime(time, timezone).date;
+  let next = floorToMinute(time) + (60 - getLocalTime(time, timezone).minute) * MINUTE_MS;
+  while (getLocalTime(next, timezone).date === today) {
+    next += 60 * MINUTE_MS;
+  }
+  return next;
+}
+
+/**
+ * ルーチンを次に実行できる時刻を求める（実行できる時刻がない場合は null）
+ * クールダウン、cron、1日の実行回数の上限、時間帯のすべてを満たす最初の時刻
+ */
+export function getNextEligibleTime(
+  schedule: RoutineSchedule | undefined,
+  lastExecuted: string | undefined,
+  dailyRuns: DailyRuns | undefined,
+  cooldownSeconds: number,
+  now: Date = new Date()
+): Date | null {
+  const lastExecutedTime = lastExecuted ? new Date(lastExecuted).getTime() : undefined;
+  let time = now.getTime();
+  if (lastExecutedTime !== undefined) {
+    time = Math.max(time, lastExecutedTime + cooldownSeconds * 1000);
+  }
+  if (!schedule) {
+    return new Date(time);
+  }
+
+  // cron の時刻を過ぎてからまだ実行していなければ実行できる
+  if (schedule.cron) {
+    const reference = Math.max(lastExecutedTime ?? 0, schedule.since ? new Date(schedule.since).getTime() : 0) || now.getTime();
+    const fireTime = nextCronTime(parseCron(schedule.cron), reference, schedule.timezone);
+    if (fireTime === null) {
+      return null;
+    }
+    time = Math.max(time, fireTime);
+  }
+
+  if (schedule.maxRunsPerDay !== undefined && dailyRuns && dailyRuns.count >= schedule.maxRunsPerDay
+      && dailyRuns.date === getLocalTime(time, schedule.timezone).date) {
+    time = startOfNextDay(time, schedule.timezone);
+  }
+
+  if (schedule.windows && schedule.windows.length > 0) {
+    const windowTime = nextWindowTime(time, schedule.windows, schedule.timezone);
+    if (windowTime === null) {
+      return null;
+    }
+    time = windowTime;
+  }
+
+  return new Date(time);
+}
+
+function parseDays(text: string): number[] {
+  const keywords: Record<string, number[]> = {
+    daily: [0, 1, 2, 3, 4, 5, 6],
+    weekdays: [1, 2, 3, 4, 5],
+    weekends: [0, 6]
+  };
+  if (keywords[text.toLowerCase()]) {
+    return keywords[text.toLowerCase()];
+  }
+
+  const days = parseField(text, 0, 7, 'days', WEEKDAY_NAMES);
+  if (days.delete(7)) {
+    days.add(0);
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+/**
+ * 時間帯を解析する（例: "mon-fri 09:00-18:00", "weekends 10:00-12:00", "22:00-06:00"）
+ */
+export function parseTimeWindow(text: string): TimeWindow {
+  const match = text.trim().match(/^(?:(\S+)\s+)?(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid time window "${text}" (expected e.g. "mon-fri 09:00-18:00")`);
+  }
+
+  const [, daysText, start, end] = match;
+  for (const time of [start, end]) {
+    const [hours, minutes] = time.split(':').map(value => parseInt(value));
+    if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0) || (hours === 24 && time === start)) {
+      throw new Error(`Invalid time "${time}" in time window "${text}"`);
+    }
+  }
+  if (toMinutes(start) === toMinutes(end)) {
+    throw new Error(`Time window "${text}" is empty`);
+  }
+
+  const pad = (time: string) => time.padStart(5, '0');
+  return { days: daysText ? parseDays(daysText) : parseDays('daily'), start: pad(start), end: pad(end) };
+}
+
+function formatDays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 7) {
+    return 'daily';
+  }
+
+  // 連続する曜日は範囲で表示する
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) {
+      j++;
+    }
+    ranges.push(j - i >= 2 ? `${WEEKDAY_NAMES[sorted[i]]}-${WEEKDAY_NAMES[sorted[j]]}` : sorted.slice(i, j + 1).map(day => WEEKDAY_NAMES[day]).join(','));
+    i = j;
+  }
+  return ranges.join(',');
+}
+
+export function formatTimeWindow(window: TimeWindow): string {
+  return `${formatDays(window.days)} ${window.start}-${window.end}`;
+}
+
+export function formatSchedule(schedule: RoutineSchedule): string {
+  const parts: string[] = [];
+  if (schedule.cron) {
+    parts.push(`cron "${schedule.cron}"`);
+  }
+  if (schedule.windows?.length) {
+    parts.push(schedule.windows.map(formatTimeWindow).join(' / '));
+  }
+  if (schedule.cooldown !== undefined) {
+    parts.push(`cooldown ${schedule.cooldown}s`);
+  }
+  if (schedule.maxRunsPerDay !== undefined) {
+    parts.push(`max ${schedule.maxRunsPerDay} run(s)/day`);
+  }
+  return parts.join(', ') + (schedule.timezone ? ` (${schedule.timezone})` : '');
+}
@@ -0,0 +1,376 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { nanoid } from 'nanoid';
+import YAML from 'yaml';
+import { ApiClient } from './api-client.js';
+import { AuthManager } from './auth-manager.js';
+import { ConfigManager, RoutineStoreMode } from './config-manager.js';
+import { RoutineVariables, parseVariableDeclarations } from './routine-variables.js';
+
+export const ROUTINE_STORE_MODES: RoutineStoreMode[] = ['api', 'local'];
+
+export interface RoutineStep {
+  id: string;
+  routineId: string;
+  order: number;
+  type: string;
+  content: string;
+  parameters?: any;
+}
+
+export interface Routine {
+  id: string;
+  name: string;
+  description: string;
+  isActive: boolean;
+  steps: RoutineStep[];
+  variables?: RoutineVariables; // ステップの内容で {{name}} として参照する変数
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateRoutineData {
+  name: string;
+  description: string;
+  isActive: boolean;
+  steps: Array<{ type: string; content: string; parameters?: any; order: number }>;
+  variables?: RoutineVariables;
+}
+
+export type RoutineChanges = Partial<Pick<Routine, 'name' | 'description' | 'isActive' | 'variables'>> & {
+  steps?: CreateRoutineData['steps'];
+};
+
+/**
+ * ルーチン定義の保存先（aireer API またはワークスペースのファイル）
+ */
+export interface RoutineStore {
+  readonly mode: RoutineStoreMode;
+  describe(): string;
+  listRoutines(activeOnly?: boolean): Promise<Routine[]>;
+  getRoutine(routineId: string): Promise<Routine | null>;
+  createRoutine(data: CreateRoutineData): Promise<Routine>;
+  updateRoutine(routineId: string, changes: RoutineChanges): Promise<boolean>;
+  saveRoutine(routineId: string, data: CreateRoutineData): Promise<boolean>;
+  deleteRoutine(routineId: string): Promise<boolean>;
+}
+
+/**
+ * 設定（aireer config --routine-store）に応じた保存先を返す
+ * local の場合、ルーチンのディレクトリは directory からの相対パス
+ */
+export function createRoutineStore(apiUrl: string, directory: string = '.', authManager?: AuthManager): RoutineStore {
+  const configManager = authManager?.getConfigManager() ?? new ConfigManager();
+  if (configManager.getRoutineStore() === 'local') {
+    return new LocalRoutineStore(path.resolve(directory, configManager.getRoutineDirectory()));
+  }
+  return new ApiRoutineStore(apiUrl, authManager);
+}
+
+export function isLocalRoutineStore(): boolean {
+  return new ConfigManager().getRoutineStore() === 'local';
+}
+
+/**
+ * aireer API（/api/routines）に保存されたルーチン
+ */
+export class ApiRoutineStore implements RoutineStore {
+  readonly mode = 'api';
+  private apiClient: ApiClient;
+
+  constructor(apiUrl: string, authManager?: AuthManager) {
+    this.apiClient = new ApiClient(apiUrl);
+
+    // 認証トークンを設定
+    const token = authManager?.getConfigManager().getToken();
+    if (token) {
+      this.apiClient.setAuthToken(token);
+    }
+  }
+
+  describe(): string {
+    return `aireer API (${this.apiClient.getBaseUrl()})`;
+  }
+
+  async listRoutines(activeOnly: boolean = false): Promise<Routine[]> {
+    const response = await this.apiClient.get(activeOnly ? '/api/routines?active=true' : '/api/routines');
+    return response.success && Array.isArray(response.data) ? response.data : [];
+  }
+
+  async getRoutine(routineId: string): Promise<Routine | null> {
+    const response = await this.apiClient.get(`/api/routines/${encodeURIComponent(routineId)}`);
+    return response.success && response.data ? response.data : null;
+  }
+
+  async createRoutine(data: CreateRoutineData): Promise<Routine> {
+    const response = await this.apiClient.post('/api/routines', data);
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to create routine');
+    }
+    return response.data;
+  }
+
+  async updateRoutine(routineId: string, changes: RoutineChanges): Promise<boolean> {
+    const response = await this.apiClient.patch(`/api/routines/${encodeURIComponent(routineId)}`, changes);
+    return response.success !== false;
+  }
+
+  /**
+   * ルーチン全体を置き換える（ID・実行履歴はそのまま）
+   */
+  async saveRoutine(routineId: string, data: CreateRoutineData): Promise<boolean> {
+    const response = await this.apiClient.put(`/api/routines/${encodeURIComponent(routineId)}`, data);
+    if (response.success === false) {
+      throw new Error(response.message || 'Failed to update routine');
+    }
+    return true;
+  }
+
+  async deleteRoutine(routineId: string): Promise<boolean> {
+    const response = await this.apiClient.delete(`/api/routines/${encodeURIComponent(routineId)}`);
+    if (!response.success) {
+      throw new Error(response.message || 'Unknown error');
+    }
+    return true;
+  }
+}
+
+interface RoutineFile {
+  filepath: string;
+  routine: Routine;
+}
+
+const ROUTINE_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * ディレクトリ内の JSON / YAML ファイルに定義されたルーチン（1ファイル1ルーチン）
+ * ID はファイルの id フィールド、なければ拡張子を除いたファイル名
+ */
+export class LocalRoutineStore implements RoutineStore {
+  readonly mode = 'local';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  describe(): string {
+    return `local files (${this.directory})`;
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  async listRoutines(activeOnly: boolean = false): Promise<Routine[]> {
+    return this.loadRoutineFiles()
+      .map(file => file.routine)
+      .filter(routine => !activeOnly || routine.isActive);
+  }
+
+  async getRoutine(routineId: string): Promise<Routine | null> {
+    return this.findRoutineFile(routineId)?.routine ?? null;
+  }
+
+  async createRoutine(data: CreateRoutineData): Promise<Routine> {
+    const existingIds = new Set(this.loadRoutineFiles(false).map(file => file.routine.id));
+    const base = slugify(data.name) || `routine-${nanoid(8).toLowerCase()}`;
+    let routineId = base;
+    for (let suffix = 2; existingIds.has(routineId) || this.hasFileFor(routineId); suffix++) {
+      routineId = `${base}-${suffix}`;
+    }
+
+    const now = new Date().toISOString();
+    const definition = {
+      name: data.name,
+      description: data.description,
+      isActive: data.isActive,
+      ...(data.variables ? { variables: data.variables } : {}),
+      createdAt: now,
+      steps: data.steps.map(step => ({
+        type: step.type,
+        content: step.content,
+        ...(step.parameters !== undefined ? { parameters: step.parameters } : {})
+      }))
+    };
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    const filepath = path.join(this.directory, `${routineId}.json`);
+    fs.writeFileSync(filepath, JSON.stringify(definition, null, 2) + '\n', { flag: 'wx' });
+    return normalizeRoutine(definition, routineId, fs.statSync(filepath));
+  }
+
+  /**
+   * ファイルの該当フィールドだけを書き換える（YAML のコメントや他のフィールドは保持する）
+   */
+  async updateRoutine(routineId: string, changes: RoutineChanges): Promise<boolean> {
+    const file = this.findRoutineFile(routineId);
+    if (!file) {
+      return false;
+    }
+
+    const content = fs.readFileSync(file.filepath, 'utf-8');
+    const isYaml = path.extname(file.filepath) !== '.json';
+    const document = isYaml ? YAML.parseDocument(content) : null;
+    const data = document ? document.toJSON() : JSON.parse(content);
+
+    const values: Record<string, unknown> = {
+      ...changes,
+      ...(changes.steps ? { steps: changes.steps.map(({ order, ...step }) => step) } : {}),
+      updatedAt: new Date().toISOString()
+    };
+    // active: true の表記で書かれたファイルはその表記のまま更新する
+    if ('isActive' in values && !('isActive' in data) && 'active' in data) {
+      values.active = values.isActive;
+      delete values.isActive;
+    }
+
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) {
+        if (document) {
+          document.delete(key);
+        } else {
+          delete data[key];
+        }
+        continue;
+      }
+      if (document) {
+        document.set(key, value);
+      } else {
+        data[key] = value;
+      }
+    }
+    fs.writeFileSync(file.filepath, document ? document.toString() : JSON.stringify(data, null, 2) + '\n');
+    return true;
+  }
+
+  async saveRoutine(routineId: string, data: CreateRoutineData): Promise<boolean> {
+    // 宣言が削除された場合はファイルからも削除する
+    return this.updateRoutine(routineId, { ...data, variables: data.variables });
+  }
+
+  async deleteRoutine(routineId: string): Promise<boolean> {
+    const file = this.findRoutineFile(routineId);
+    if (!file) {
+      return false;
+    }
+    fs.unlinkSync(file.filepath);
+    return true;
+  }
+
+  private findRoutineFile(routineId: string): RoutineFile | undefined {
+    return this.loadRoutineFiles().find(file => file.routine.id === routineId);
+  }
+
+  private hasFileFor(routineId: string): boolean {
+    return ROUTINE_FILE_EXTENSIONS.some(extension => fs.existsSync(path.join(this.directory, `${routineId}${extension}`)));
+  }
+
+  /**
+   * ルーチンファイルを読み込む（不正なファイルと重複した ID は警告して除外する）
+   */
+  private loadRoutineFiles(warn: boolean = true): RoutineFile[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    const files: RoutineFile[] = [];
+    const filenames = fs.readdirSync(this.directory)
+      .filter(filename => ROUTINE_FILE_EXTENSIONS.includes(path.extname(filename).toLowerCase()))
+      .sort();
+
+    for (const filename of filenames) {
+      const filepath = path.join(this.directory, filename);
+      try {
+        const content = fs.readFileSync(filepath, 'utf-8');
+        const data = path.extname(filename).toLowerCase() === '.json' ? JSON.parse(content) : YAML.parse(content);
+        const routine = normalizeRoutine(data, path.basename(filename, path.extname(filename)), fs.statSync(filepath));
+
+        const duplicate = files.find(file => file.routine.id === routine.id);
+        if (duplicate) {
+          throw new Error(`duplicate routine ID "${routine.id}" (already defined in ${path.basename(duplicate.filepath)})`);
+        }
+        files.push({ filepath, routine });
+      } catch (error) {
+        if (warn) {
+          console.log(chalk.yellow(`⚠️  Skipping routine file ${filename}: ${error instanceof Error ? error.message : error}`));
+        }
+      }
+    }
+    return files;
+  }
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+/**
+ * ルーチンの定義（ルーチンファイル・インポートファイルの1件）を解析する（不正な場合は例外）
+ * steps は文字列（action ステップ）または { type, content, parameters } の配列
+ * 旧形式（cli/routine.json）の { step, description, parameters } も受け付け、step の番号順に並べる
+ */
+export function parseRoutineDefinition(data: any): CreateRoutineData {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('a routine must be an object');
+  }
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    throw new Error('"name" is required');
+  }
+  if (data.steps !== undefined && !Array.isArray(data.steps)) {
+    throw new Error('"steps" must be a list');
+  }
+
+  const definitions: any[] = (data.steps ?? []).map((step: any) => typeof step === 'string' ? { content: step } : step);
+  const ordered = definitions.every(definition => typeof definition?.step === 'number')
+    ? [...definitions].sort((a, b) => a.step - b.step)
+    : definitions;
+  const steps = ordered.map((definition, index) => {
+    const content = definition?.content ?? definition?.description;
+    if (typeof content !== 'string' || content.trim() === '') {
+      throw new Error(`step ${index + 1} needs "content"`);
+    }
+    return {
+      type: typeof definition.type === 'string' ? definition.type : 'action',
+      content,
+      ...(definition.parameters !== undefined ? { parameters: definition.parameters } : {}),
+      order: index + 1
+    };
+  });
+
+  const isActive = data.isActive ?? data.active ?? true;
+  if (typeof isActive !== 'boolean') {
+    throw new Error('"isActive" must be true or false');
+  }
+
+  const variables = parseVariableDeclarations(data.variables);
+
+  return {
+    name: data.name,
+    description: typeof data.description === 'string' ? data.description : '',
+    isActive,
+    steps,
+    ...(variables ? { variables } : {})
+  };
+}
+
+/**
+ * ファイルの内容をルーチンに変換する（不正な場合は例外）
+ */
+function normalizeRoutine(data: any, fallbackId: string, stats: fs.Stats): Routine {
+  const definition = parseRoutineDefinition(data);
+  const routineId = data.id !== undefined ? String(data.id) : fallbackId;
+
+  return {
+    id: routineId,
+    ...definition,
+    steps: definition.steps.map(step => ({ id: `${routineId}-step-${step.order}`, routineId, ...step })),
+    createdAt: data.createdAt ?? stats.birthtime.toISOString(),
+    updatedAt: data.updatedAt ?? stats.mtime.toISOString()
+  };
+}
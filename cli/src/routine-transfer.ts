@@ -0,0 +1,130 @@
+import * as path from 'path';
+import YAML from 'yaml';
+import { CreateRoutineData, Routine, parseRoutineDefinition } from './routine-store.js';
+import { RoutineVariables } from './routine-variables.js';
+
+export const ROUTINE_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'yaml';
+
+export interface PortableStep {
+  type: string;
+  content: string;
+  parameters?: any;
+}
+
+// エクスポートファイルの1件（ローカルのルーチンファイルと同じ形式に priority / weight を加えたもの）
+export interface PortableRoutine {
+  name: string;
+  description: string;
+  isActive: boolean;
+  priority?: number; // 1-10
+  weight?: number;   // 0.1-5.0
+  variables?: RoutineVariables;
+  steps: PortableStep[];
+}
+
+export interface RoutineExport {
+  version: number;
+  exportedAt: string;
+  routines: PortableRoutine[];
+}
+
+export interface ImportedRoutine {
+  routine: CreateRoutineData;
+  priority?: number;
+  weight?: number;
+}
+
+export function toPortableRoutine(routine: Routine, settings?: { priority: number; weight: number }): PortableRoutine {
+  const steps = [...(routine.steps ?? [])].sort((a, b) => a.order - b.order);
+  return {
+    name: routine.name,
+    description: routine.description ?? '',
+    isActive: routine.isActive,
+    ...(settings ? { priority: settings.priority, weight: settings.weight } : {}),
+    ...(routine.variables && Object.keys(routine.variables).length > 0 ? { variables: routine.variables } : {}),
+    steps: steps.map(step => ({
+      type: step.type,
+      content: step.content,
+      ...(step.parameters !== undefined && step.parameters !== null ? { parameters: parseParameters(step.parameters) } : {})
+    }))
+  };
+}
+
+// API のステップは parameters を JSON 文字列で返すことがある
+function parseParameters(parameters: any): any {
+  if (typeof parameters !== 'string') {
+    return parameters;
+  }
+  try {
+    return JSON.parse(parameters);
+  } catch (error) {
+    return parameters;
+  }
+}
+
+/**
+ * 出力先の拡張子から形式を決める（.yaml / .yml 以外は JSON）
+ */
+export function detectFormat(filepath?: string): ExportFormat {
+  const extension = filepath ? path.extname(filepath).toLowerCase() : '';
+  return extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json';
+}
+
+export function serializeExport(routines: PortableRoutine[], format: ExportFormat): string {
+  const data: RoutineExport = {
+    version: ROUTINE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    routines
+  };
+  return format === 'yaml' ? YAML.stringify(data) : JSON.stringify(data, null, 2) + '\n';
+}
+
+/**
+ * インポートファイルを解析する（不正な場合は例外）
+ * エクスポート形式 { version, routines }、ルーチンの配列、1件のルーチン（旧形式を含む）を受け付ける
+ */
+export function parseImportFile(content: string, filepath: string): ImportedRoutine[] {
+  let data: any;
+  try {
+    data = detectFormat(filepath) === 'yaml' ? YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${path.basename(filepath)}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (data && typeof data === 'object' && !Array.isArray(data) && 'routines' in data) {
+    if (typeof data.version === 'number' && data.version > ROUTINE_EXPORT_VERSION) {
+      throw new Error(`Unsupported export version ${data.version} (this aireer supports up to ${ROUTINE_EXPORT_VERSION})`);
+    }
+    if (!Array.isArray(data.routines)) {
+      throw new Error('"routines" must be a list');
+    }
+    data = data.routines;
+  }
+
+  const entries: any[] = Array.isArray(data) ? data : [data];
+  return entries.map((entry, index) => {
+    const label = entries.length > 1 ? `Routine ${index + 1}${typeof entry?.name === 'string' ? ` (${entry.name})` : ''}` : 'Routine';
+    try {
+      return {
+        routine: parseRoutineDefinition(entry),
+        priority: readNumber(entry, 'priority', 1, 10),
+        weight: readNumber(entry, 'weight', 0.1, 5)
+      };
+    } catch (error) {
+      throw new Error(`${label}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+function readNumber(entry: any, field: string, min: number, max: number): number | undefined {
+  const value = entry[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`"${field}" must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
@@ -0,0 +1,227 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+
+export type VariableType = 'string' | 'number' | 'boolean';
+
+export const VARIABLE_TYPES: VariableType[] = ['string', 'number', 'boolean'];
+
+export type VariableValue = string | number | boolean;
+
+// ルーチンが受け取る変数の宣言（default がない変数は必須）
+export interface VariableDefinition {
+  type: VariableType;
+  default?: VariableValue;
+  description?: string;
+}
+
+export type RoutineVariables = Record<string, VariableDefinition>;
+
+// 値の取得元（優先度の高い順: --var → 変数ファイル → 環境変数 → default）
+export interface VariableSources {
+  cli?: Record<string, string>;
+  file?: Record<string, unknown>;
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface VariableResolution {
+  values: Record<string, VariableValue>;
+  missing: string[];   // 値のない必須の変数
+  errors: string[];    // 型が合わない値
+  unknown: string[];   // --var・変数ファイルで指定されたが宣言されていない変数
+}
+
+export const VARIABLE_ENV_PREFIX = 'AIREER_VAR_';
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const VARIABLE_REFERENCE = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * ルーチン定義の variables を検証する（不正な場合は例外）
+ * { topic: "string" } のように型だけを書くこともできる
+ */
+export function parseVariableDeclarations(data: unknown): RoutineVariables | undefined {
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('"variables" must be a map of variable names to declarations');
+  }
+
+  const variables: RoutineVariables = {};
+  for (const [name, declaration] of Object.entries(data as Record<string, any>)) {
+    if (!VARIABLE_NAME.test(name)) {
+      throw new Error(`variable name "${name}" may only contain letters, digits and underscores`);
+    }
+    const definition = typeof declaration === 'string' ? { type: declaration } : declaration ?? {};
+    if (typeof definition !== 'object' || Array.isArray(definition)) {
+      throw new Error(`variable "${name}" must be a type or an object with type, default and description`);
+    }
+
+    const type = definition.type ?? (definition.default !== undefined ? typeof definition.default : 'string');
+    if (!VARIABLE_TYPES.includes(type)) {
+      throw new Error(`variable "${name}" has an unknown type ${JSON.stringify(type)} (expected one of: ${VARIABLE_TYPES.join(', ')})`);
+    }
+    if (definition.default !== undefined && definition.default !== null && typeof definition.default !== type) {
+      throw new Error(`the default of variable "${name}" must be a ${type}`);
+    }
+    if (definition.description !== undefined && typeof definition.description !== 'string') {
+      throw new Error(`the description of variable "${name}" must be a string`);
+    }
+
+    variables[name] = {
+      type,
+      ...(definition.default !== undefined && definition.default !== null ? { default: definition.default } : {}),
+      ...(definition.description ? { description: definition.description } : {})
+    };
+  }
+  return variables;
+}
+
+/**
+ * --var name=value の一覧を読み取る（不正な場合は例外）
+ */
+export function parseVariableAssignments(assignments: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    const name = separator === -1 ? '' : assignment.substring(0, separator).trim();
+    if (!VARIABLE_NAME.test(name)) {
+      throw new Error(`Invalid variable "${assignment}" (expected name=value)`);
+    }
+    values[name] = assignment.substring(separator + 1);
+  }
+  return values;
+}
+
+/**
+ * 変数ファイル（JSON / YAML の name: value）を読み込む（不正な場合は例外）
+ */
+export function loadVariablesFile(filepath: string): Record<string, unknown> {
+  const extension = path.extname(filepath).toLowerCase();
+  const content = fs.readFileSync(filepath, 'utf-8');
+  let data: unknown;
+  try {
+    data = extension === '.yaml' || extension === '.yml' ? YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${path.basename(filepath)}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (data === null || data === undefined) {
+    return {};
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${path.basename(filepath)} must contain a map of variable names to values`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * 宣言された変数の値を取得元から決める
+ */
+export function resolveVariables(variables: RoutineVariables | undefined, sources: VariableSources): VariableResolution {
+  const declared = variables ?? {};
+  const resolution: VariableResolution = { values: {}, missing: [], errors: [], unknown: [] };
+
+  for (const [name, definition] of Object.entries(declared)) {
+    const env = sources.env?.[`${VARIABLE_ENV_PREFIX}${name.toUpperCase()}`];
+    const candidates: Array<[string, unknown]> = [
+      ['--var', sources.cli?.[name]],
+      ['variables file', sources.file?.[name]],
+      [`$${VARIABLE_ENV_PREFIX}${name.toUpperCase()}`, env]
+    ];
+    const provided = candidates.find(([, value]) => value !== undefined && value !== null);
+
+    if (!provided) {
+      if (definition.default !== undefined) {
+        resolution.values[name] = definition.default;
+      } else {
+        resolution.missing.push(name);
+      }
+      continue;
+    }
+
+    const value = convertValue(provided[1], definition.type);
+    if (value === undefined) {
+      resolution.errors.push(`${name} must be a ${definition.type} (got ${JSON.stringify(provided[1])} from ${provided[0]})`);
+    } else {
+      resolution.values[name] = value;
+    }
+  }
+
+  const given = [...Object.keys(sources.cli ?? {}), ...Object.keys(sources.file ?? {})];
+  resolution.unknown = [...new Set(given.filter(name => !(name in declared)))];
+  return resolution;
+}
+
+function convertValue(value: unknown, type: VariableType): VariableValue | undefined {
+  if (typeof value === type) {
+    return value as VariableValue;
+  }
+  const text = String(value).trim();
+  switch (type) {
+    case 'string':
+      return String(value);
+    case 'number': {
+      const number = Number(text);
+      return text !== '' && Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (['true', 'yes', '1', 'on'].includes(text.toLowerCase())) {
+        return true;
+      }
+      if (['false', 'no', '0', 'off'].includes(text.toLowerCase())) {
+        return false;
+      }
+      return undefined;
+  }
+}
+
+/**
+ * ルーチンの説明とステップ（内容・parameters の文字列）の {{name}} を変数の値に置き換えたコピーを返す
+ * 宣言されていない {{name}} はそのまま残す
+ */
+export function applyVariables<T extends { description?: string; steps?: Array<{ content: string; parameters?: any }> }>(
+  routine: T,
+  values: Record<string, VariableValue>
+): T {
+  const replace = (text: string) => text.replace(VARIABLE_REFERENCE, (match, name: string) => name in values ? String(values[name]) : match);
+  const replaceDeep = (value: any): any => {
+    if (typeof value === 'string') {
+      return replace(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(replaceDeep);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceDeep(item)]));
+    }
+    return value;
+  };
+
+  return {
+    ...routine,
+    ...(typeof routine.description === 'string' ? { description: replace(routine.description) } : {}),
+    ...(routine.steps ? {
+      steps: routine.steps.map(step => ({
+        ...step,
+        content: replace(step.content),
+        ...(step.parameters !== undefined && step.parameters !== null ? { parameters: replaceDeep(step.parameters) } : {})
+      }))
+    } : {})
+  };
+}
+
+/**
+ * ステップの内容で参照されているが宣言されていない変数の一覧
+ */
+export function findUndeclaredReferences(routine: { steps?: Array<{ content: string }> }, variables: RoutineVariables | undefined): string[] {
+  const names = new Set<string>();
+  for (const step of routine.steps ?? []) {
+    for (const match of step.content.matchAll(VARIABLE_REFERENCE)) {
+      if (!variables || !(match[1] in variables)) {
+        names.add(match[1]);
+      }
+    }
+  }
+  return [...names];
+}
@@ -4,6 +4,7 @@ import ora from 'ora';
 import { ApiClient } from './api-client.js';
 import { LogManager } from './log-manager.js';
 import { AuthManager } from './auth-manager.js';
+import { ShutdownCoordinator } from './shutdown-coordinator.js';
 
 interface SchedulerConfig {
   baseUrl: string;
@@ -24,12 +25,16 @@ export async function startScheduler(config: SchedulerConfig): Promise<void> {
   
   const logManager = new LogManager();
   
-  // Ctrl+Cで停止するためのハンドラー
+  // Ctrl+Cで停止するためのハンドラー（実行中のタスクの完了を待ってから終了）
   let isRunning = true;
-  process.on('SIGINT', () => {
-    console.log(chalk.yellow('\n⏹️  スケジューラーを停止しています...'));
+  let task: cron.ScheduledTask | undefined;
+  const shutdown = new ShutdownCoordinator('scheduler').install();
+  shutdown.onStop(() => {
     isRunning = false;
-    process.exit(0);
+    task?.stop();
+  });
+  shutdown.onFlush(() => {
+    logManager.log('info', 'shutdown', logManager.getStats());
   });
 
   // cronフォーマットに変換（秒間隔）
@@ -39,12 +44,12 @@ export async function startScheduler(config: SchedulerConfig): Promise<void> {
   console.log(chalk.gray('停止するには Ctrl+C を押してください\n'));
 
   // 即座に1回実行
-  await executeScheduledTask(config, apiClient, logManager);
+  await shutdown.track(executeScheduledTask(config, apiClient, logManager));
 
   // 定期実行を開始
-  cron.schedule(cronPattern, async () => {
+  task = cron.schedule(cronPattern, async () => {
     if (isRunning) {
-      await executeScheduledTask(config, apiClient, logManager);
+      await shutdown.track(executeScheduledTask(config, apiClient, logManager));
     }
   });
 
@@ -0,0 +1,137 @@
+import chalk from 'chalk';
+
+type ShutdownHandler = () => void | Promise<void>;
+
+export const DEFAULT_DRAIN_TIMEOUT_SECONDS = 60;
+
+/**
+ * Ctrl+C（SIGINT）/ SIGTERM を受けたときに、実行中の処理の完了を待ってから終了する
+ * 1回目: 新しい処理を止め、実行中の処理をタイムアウトまで待ち、履歴・ログを書き出して終了
+ * 2回目: 待たずに強制終了
+ */
+export class ShutdownCoordinator {
+  private modeName: string;
+  private drainTimeoutMs: number;
+  private signalExitCode: number;
+  private shuttingDown = false;
+  private inFlight = new Set<Promise<unknown>>();
+  private stopHandlers: ShutdownHandler[] = [];
+  private flushHandlers: ShutdownHandler[] = [];
+  private sleepers = new Set<() => void>();
+  private signalHandler = () => this.handleSignal();
+
+  constructor(modeName: string, drainTimeoutSeconds: number = DEFAULT_DRAIN_TIMEOUT_SECONDS, signalExitCode: number = 0) {
+    this.modeName = modeName;
+    this.drainTimeoutMs = drainTimeoutSeconds * 1000;
+    this.signalExitCode = signalExitCode;
+  }
+
+  /**
+   * シグナルハンドラーを登録する
+   */
+  install(): this {
+    process.on('SIGINT', this.signalHandler);
+    process.on('SIGTERM', this.signalHandler);
+    return this;
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  /**
+   * 終了時に完了を待つ処理を登録する
+   */
+  track<T>(task: Promise<T>): Promise<T> {
+    this.inFlight.add(task);
+    const remove = () => this.inFlight.delete(task);
+    task.then(remove, remove);
+    return task;
+  }
+
+  /**
+   * 終了開始時に呼ばれる処理（新しい処理の受付停止など）を登録する
+   */
+  onStop(handler: ShutdownHandler): void {
+    this.stopHandlers.push(handler);
+  }
+
+  /**
+   * 実行中の処理を待った後に呼ばれる処理（履歴・ログの書き出しなど）を登録する
+   */
+  onFlush(handler: ShutdownHandler): void {
+    this.flushHandlers.push(handler);
+  }
+
+  /**
+   * 終了開始時に即座に解決される待機
+   */
+  sleep(ms: number): Promise<void> {
+    if (this.shuttingDown) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.sleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.sleepers.add(wake);
+    });
+  }
+
+  private handleSignal(): void {
+    if (this.shuttingDown) {
+      console.log(chalk.red(`\n⛔ Forcing ${this.modeName} to exit (${this.inFlight.size} task(s) abandoned)`));
+      process.exit(130);
+    }
+    void this.shutdown(this.signalExitCode);
+  }
+
+  /**
+   * 実行中の処理を待ってから終了する
+   */
+  async shutdown(exitCode: number = 0): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
+
+    console.log(chalk.yellow(`\n⏹️  Stopping ${this.modeName}...`));
+    this.sleepers.forEach(wake => wake());
+    await this.runHandlers(this.stopHandlers);
+
+    if (this.inFlight.size > 0) {
+      console.log(chalk.yellow(`⏳ Waiting up to ${this.drainTimeoutMs / 1000} seconds for ${this.inFlight.size} running task(s) to finish`));
+      console.log(chalk.gray('   Press Ctrl+C again to force exit'));
+
+      let timer: NodeJS.Timeout | undefined;
+      const drained = await Promise.race([
+        Promise.allSettled([...this.inFlight]).then(() => true),
+        new Promise<boolean>(resolve => {
+          timer = setTimeout(() => resolve(false), this.drainTimeoutMs);
+        })
+      ]);
+      clearTimeout(timer);
+
+      if (!drained) {
+        console.log(chalk.red(`⚠️  ${this.inFlight.size} task(s) did not finish within ${this.drainTimeoutMs / 1000} seconds`));
+      }
+    }
+
+    await this.runHandlers(this.flushHandlers);
+    console.log(chalk.green(`✅ ${this.modeName} stopped`));
+    process.exit(exitCode);
+  }
+
+  private async runHandlers(handlers: ShutdownHandler[]): Promise<void> {
+    for (const handler of handlers) {
+      try {
+        await handler();
+      } catch (error) {
+        console.error(chalk.red('❌ Shutdown handler failed:'), error);
+      }
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import chalk from 'chalk';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface SnapshotEntry {
+  filepath: string;        // ワーキングディレクトリからの相対パス
+  existed: boolean;        // 操作前にファイルが存在したか
+  isDirectory: boolean;
+  backup?: string;         // スナップショットディレクトリ内のバックアップ名
+  afterHash?: string | null; // 実行完了時点のハッシュ（null は存在しない）
+}
+
+export interface SnapshotManifest {
+  executionId: string;
+  baseDirectory: string;
+  createdAt: string;
+  completedAt?: string;
+  rolledBackAt?: string;
+  entries: SnapshotEntry[];
+  commands?: string[];     // 実行中に execute で実行したコマンド（その副作用はスナップショットの対象外）
+}
+
+export interface RollbackResult {
+  restored: string[];
+  conflicts: string[];
+}
+
+const SNAPSHOT_DIRECTORY = '.aireer-snapshots';
+const MANIFEST_FILE = 'manifest.json';
+const MAX_KEPT_SNAPSHOTS = 100;
+
+/**
+ * 実行したコマンドの副作用は復元されないことを表示する
+ */
+export function printUnrestoredCommands(commands: string[]): void {
+  if (commands.length === 0) {
+    return;
+  }
+  console.log(chalk.yellow(`⚠️  ${commands.length} command(s) ran during this execution. Changes made by commands are not snapshotted and were not restored:`));
+  commands.forEach(command => console.log(chalk.gray(`   $ ${command}`)));
+}
+
+/**
+ * ルーチン実行中に変更されるファイルの元の状態を保存し、ロールバックを可能にする
+ * execute で実行したコマンドによる変更は対象外（実行したコマンドのみ記録する）
+ */
+export class SnapshotManager {
+  private snapshotDirectory: string;
+  private manifest: SnapshotManifest;
+
+  constructor(baseDirectory: string, executionId: string, configDirectory: string = baseDirectory) {
+    this.snapshotDirectory = path.join(configDirectory, SNAPSHOT_DIRECTORY, executionId);
+    this.manifest = {
+      executionId,
+      baseDirectory: path.resolve(baseDirectory),
+      createdAt: new Date().toISOString(),
+      entries: []
+    };
+  }
+
+  /**
+   * 保存済みのスナップショットを読み込む
+   */
+  static load(configDirectory: string, executionId: string): SnapshotManager | null {
+    const manifestPath = path.join(configDirectory, SNAPSHOT_DIRECTORY, executionId, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    const manifest: SnapshotManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    const manager = new SnapshotManager(manifest.baseDirectory, executionId, configDirectory);
+    manager.manifest = manifest;
+    return manager;
+  }
+
+  /**
+   * 古いスナップショットを削除する
+   */
+  static prune(configDirectory: string, keep: number = MAX_KEPT_SNAPSHOTS): void {
+    const root = path.join(configDirectory, SNAPSHOT_DIRECTORY);
+    if (!fs.existsSync(root)) {
+      return;
+    }
+
+    try {
+      const snapshots = fs.readdirSync(root)
+        .map(name => ({ name, mtime: fs.statSync(path.join(root, name)).mtimeMs }))
+        .sort((a, b) => b.mtime - a.mtime);
+
+      for (const snapshot of snapshots.slice(keep)) {
+        fs.rmSync(path.join(root, snapshot.name), { recursive: true, force: true });
+      }
+    } catch (error) {
+      console.log(chalk.yellow('⚠️  Failed to prune old snapshots'));
+    }
+  }
+
+  getManifest(): SnapshotManifest {
+    return this.manifest;
+  }
+
+  hasEntries(): boolean {
+    return this.manifest.entries.length > 0;
+  }
+
+  /**
+   * 操作前のファイルの状態を保存する（同じ実行内では最初の状態のみ保持）
+   */
+  capture(filepath: string): void {
+    const relativePath = this.toRelativePath(filepath);
+    if (this.manifest.entries.some(entry => entry.filepath === relativePath)) {
+      return;
+    }
+
+    const fullPath = path.join(this.manifest.baseDirectory, relativePath);
+    const entry: SnapshotEntry = {
+      filepath: relativePath,
+      existed: fs.existsSync(fullPath),
+      isDirectory: false
+    };
+
+    if (entry.existed) {
+      entry.isDirectory = fs.statSync(fullPath).isDirectory();
+      entry.backup = `${this.manifest.entries.length}`;
+      const backupPath = path.join(this.snapshotDirectory, 'files', entry.backup);
+      fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+      fs.cpSync(fullPath, backupPath, { recursive: true });
+    }
+
+    this.manifest.entries.push(entry);
+    this.saveManifest();
+  }
+
+  /**
+   * 実行したコマンドを記録する（ロールバック時に、復元されない変更として表示する）
+   */
+  recordCommand(command: string): void {
+    this.manifest.commands = [...(this.manifest.commands ?? []), command];
+  }
+
+  getCommands(): string[] {
+    return this.manifest.commands ?? [];
+  }
+
+  /**
+   * 実行完了時の状態を記録する（後からのロールバックで競合を検出するため）
+   */
+  complete(): void {
+    for (const entry of this.manifest.entries) {
+      entry.afterHash = this.hashPath(path.join(this.manifest.baseDirectory, entry.filepath));
+    }
+    this.manifest.completedAt = new Date().toISOString();
+    this.saveManifest();
+  }
+
+  /**
+   * 保存した状態に戻す。force が false の場合、実行後に変更されたファイルは競合として残す
+   */
+  restore(force: boolean = true): RollbackResult {
+    const result: RollbackResult = { restored: [], conflicts: [] };
+
+    if (!force) {
+      for (const entry of this.manifest.entries) {
+        if (entry.afterHash === undefined) {
+          continue;
+        }
+        const currentHash = this.hashPath(path.join(this.manifest.baseDirectory, entry.filepath));
+        if (currentHash !== entry.afterHash) {
+          result.conflicts.push(entry.filepath);
+        }
+      }
+      if (result.conflicts.length > 0) {
+        return result;
+      }
+    }
+
+    // 後から記録したものから順に戻す
+    for (const entry of [...this.manifest.entries].reverse()) {
+      const fullPath = path.join(this.manifest.baseDirectory, entry.filepath);
+      fs.rmSync(fullPath, { recursive: true, force: true });
+
+      if (entry.existed && entry.backup) {
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.cpSync(path.join(this.snapshotDirectory, 'files', entry.backup), fullPath, { recursive: true });
+      }
+      result.restored.push(entry.filepath);
+    }
+
+    this.manifest.rolledBackAt = new Date().toISOString();
+    this.saveManifest();
+    return result;
+  }
+
+  /**
+   * スナップショットを削除する
+   */
+  discard(): void {
+    fs.rmSync(this.snapshotDirectory, { recursive: true, force: true });
+  }
+
+  private saveManifest(): void {
+    fs.mkdirSync(this.snapshotDirectory, { recursive: true });
+    fs.writeFileSync(path.join(this.snapshotDirectory, MANIFEST_FILE), JSON.stringify(this.manifest, null, 2));
+  }
+
+  private toRelativePath(filepath: string): string {
+    return path.relative(this.manifest.baseDirectory, path.resolve(this.manifest.baseDirectory, filepath));
+  }
+
+  private hashPath(fullPath: string): string | null {
+    if (!fs.existsSync(fullPath)) {
+      return null;
+    }
+
+    const stats = fs.statSync(fullPath);
+    if (!stats.isDirectory()) {
+      return crypto.createHash('sha256').update(fs.readFileSync(fullPath)).digest('hex');
+    }
+
+    // ディレクトリはエントリ名と各ファイルのハッシュから計算する
+    const hash = crypto.createHash('sha256');
+    for (const name of fs.readdirSync(fullPath).sort()) {
+      hash.update(`${name}:${this.hashPath(path.join(fullPath, name))}\n`);
+    }
+    return hash.digest('hex');
+  }
+}
@@ -0,0 +1,266 @@
+import chalk from 'chalk';
+import { StepExecution } from './execution-history.js';
+
+// condition の判定結果に応じた移動先（continue: 次へ / skip: 本体を飛ばす / end: ルーチンを終了 / 数値: 後方のステップ番号へ）
+export type StepFlow = 'continue' | 'skip' | 'end' | number;
+
+export interface InterpretedStep {
+  type: string;
+  content: string;
+  parameters?: any;
+}
+
+// ステップの parameters のうち、実行の流れを決めるもの
+export interface StepControl {
+  body: number;          // 後続のステップのうち、この condition / loop に属する数
+  onTrue: StepFlow;
+  onFalse: StepFlow;
+  until: string;         // loop: 繰り返しを終える条件（省略時はステップの内容）
+  maxIterations: number; // loop: 繰り返し回数の上限
+}
+
+export interface StepContext {
+  step: number;      // 1始まりのステップ番号
+  total: number;
+  iteration?: number;
+  previous: StepExecution[]; // これまでに実行したステップの結果（実行順）
+}
+
+export interface StepHandlers {
+  runAction(step: InterpretedStep, context: StepContext): Promise<{ completed: boolean; output: string; turns: number }>;
+  evaluateCondition(step: InterpretedStep, condition: string, context: StepContext): Promise<{ result: boolean; reason: string; turns: number }>;
+}
+
+export const DEFAULT_MAX_ITERATIONS = 3;
+export const MAX_ITERATIONS_LIMIT = 20;
+const MAX_OUTPUT_LENGTH = 2000;
+
+const FLOW_KEYWORDS = ['continue', 'skip', 'end'];
+
+/**
+ * ステップの parameters から実行の流れの設定を読み取る（不正な場合は例外）
+ */
+export function getStepControl(step: InterpretedStep, stepNumber: number): StepControl {
+  let parameters: any = step.parameters;
+  if (typeof parameters === 'string') {
+    try {
+      parameters = JSON.parse(parameters);
+    } catch (error) {
+      parameters = undefined;
+    }
+  }
+  if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+    parameters = {};
+  }
+
+  const readFlow = (field: 'onTrue' | 'onFalse', fallback: StepFlow): StepFlow => {
+    const value = parameters[field];
+    if (value === undefined || value === null) {
+      return fallback;
+    }
+    if (typeof value === 'string' && FLOW_KEYWORDS.includes(value)) {
+      return value as StepFlow;
+    }
+    if (typeof value === 'number' && Number.isInteger(value) && value > stepNumber) {
+      return value;
+    }
+    throw new Error(`Step ${stepNumber}: "${field}" must be one of ${FLOW_KEYWORDS.join(', ')} or the number of a later step`);
+  };
+
+  const body = parameters.body ?? 1;
+  if (typeof body !== 'number' || !Number.isInteger(body) || body < 0) {
+    throw new Error(`Step ${stepNumber}: "body" must be the number of following steps (0 or more)`);
+  }
+
+  const maxIterations = parameters.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  if (typeof maxIterations !== 'number' || !Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > MAX_ITERATIONS_LIMIT) {
+    throw new Error(`Step ${stepNumber}: "maxIterations" must be an integer between 1 and ${MAX_ITERATIONS_LIMIT}`);
+  }
+
+  if (parameters.until !== undefined && (typeof parameters.until !== 'string' || parameters.until.trim() === '')) {
+    throw new Error(`Step ${stepNumber}: "until" must be a non-empty string`);
+  }
+
+  return {
+    body,
+    onTrue: readFlow('onTrue', 'continue'),
+    onFalse: readFlow('onFalse', 'skip'),
+    until: parameters.until ?? step.content,
+    maxIterations
+  };
+}
+
+/**
+ * ルーチンのステップを1つずつ実行する
+ * action は LLM のターンで実行し、condition は判定結果で後続のステップ（body 個）を実行するか飛ばす。
+ * loop は終了条件を満たすか上限に達するまで本体（後続の body 個、0 の場合は loop 自身）を繰り返す
+ */
+export class StepInterpreter {
+  private steps: InterpretedStep[];
+  private controls: StepControl[];
+  private handlers: StepHandlers;
+  private results: StepExecution[] = [];
+
+  constructor(steps: InterpretedStep[], handlers: StepHandlers) {
+    this.steps = steps;
+    this.handlers = handlers;
+    // LLM を呼ぶ前にすべてのステップの設定を検証する
+    this.controls = steps.map((step, index) => getStepControl(step, index + 1));
+  }
+
+  async run(): Promise<StepExecution[]> {
+    await this.runRange(0, this.steps.length);
+    return this.results;
+  }
+
+  getResults(): StepExecution[] {
+    return this.results;
+  }
+
+  /**
+   * ステップのうち start から end の手前までを実行する（ルーチンを終了する場合は 'end'）
+   */
+  private async runRange(start: number, end: number, iteration?: number): Promise<'end' | undefined> {
+    let index = start;
+
+    while (index < end) {
+      const step = this.steps[index];
+      const control = this.controls[index];
+      const bodyEnd = Math.min(index + 1 + control.body, end);
+      const context = (): StepContext => ({ step: index + 1, total: this.steps.length, iteration, previous: [...this.results] });
+
+      if (step.type === 'condition') {
+        console.log(chalk.cyan(`\n🔍 Step ${index + 1}/${this.steps.length}${formatIteration(iteration)} [condition] ${step.content}`));
+        const evaluation = await this.evaluate(index, step, step.content, context(), iteration);
+        const flow = evaluation.result ? control.onTrue : control.onFalse;
+        console.log(chalk.gray(`   → ${evaluation.result} (${flow === 'skip' ? `skipping ${bodyEnd - index - 1} step(s)` : typeof flow === 'number' ? `jumping to step ${flow}` : flow})`));
+
+        if (flow === 'end') {
+          this.skip(index + 1, end, iteration);
+          return 'end';
+        }
+        const next = flow === 'skip' ? bodyEnd : typeof flow === 'number' ? Math.min(flow - 1, end) : index + 1;
+        this.skip(index + 1, next, iteration);
+        index = next;
+        continue;
+      }
+
+      if (step.type === 'loop') {
+        const outcome = await this.runLoop(index, step, control, bodyEnd, iteration);
+        if (outcome === 'end') {
+          return 'end';
+        }
+        index = bodyEnd;
+        continue;
+      }
+
+      console.log(chalk.cyan(`\n⚡ Step ${index + 1}/${this.steps.length}${formatIteration(iteration)} [${step.type}] ${step.content}`));
+      await this.act(index, step, context(), iteration);
+      index++;
+    }
+
+    return undefined;
+  }
+
+  private async runLoop(index: number, step: InterpretedStep, control: StepControl, bodyEnd: number, outerIteration?: number): Promise<'end' | undefined> {
+    for (let iteration = 1; iteration <= control.maxIterations; iteration++) {
+      console.log(chalk.cyan(`\n🔄 Step ${index + 1}/${this.steps.length} [loop] ${step.content} (iteration ${iteration}/${control.maxIterations})`));
+      const context: StepContext = { step: index + 1, total: this.steps.length, iteration, previous: [...this.results] };
+      const evaluation = await this.evaluate(index, step, control.until, context, iteration);
+      if (evaluation.result) {
+        console.log(chalk.gray('   → loop finished'));
+        return undefined;
+      }
+
+      // 本体がない loop は自分自身をアクションとして繰り返す
+      if (bodyEnd === index + 1) {
+        await this.act(index, step, { ...context, previous: [...this.results] }, iteration);
+      } else if (await this.runRange(index + 1, bodyEnd, iteration) === 'end') {
+        return 'end';
+      }
+    }
+
+    console.log(chalk.yellow(`⚠️  Loop at step ${index + 1} reached its limit of ${control.maxIterations} iterations`));
+    this.results.push({
+      step: index + 1,
+      type: step.type,
+      content: step.content,
+      iteration: outerIteration,
+      status: 'incomplete',
+      output: `Stopped after ${control.maxIterations} iterations before the condition held: ${control.until}`,
+      turns: 0
+    });
+    return undefined;
+  }
+
+  private async evaluate(index: number, step: InterpretedStep, condition: string, context: StepContext, iteration?: number): Promise<{ result: boolean }> {
+    try {
+      const evaluation = await this.handlers.evaluateCondition(step, condition, context);
+      this.results.push({
+        step: index + 1,
+        type: step.type,
+        content: step.content,
+        iteration,
+        status: 'completed',
+        result: evaluation.result,
+        output: truncate(evaluation.reason),
+        turns: evaluation.turns
+      });
+      return evaluation;
+    } catch (error: any) {
+      this.recordFailure(index, step, error, iteration);
+      throw error;
+    }
+  }
+
+  private async act(index: number, step: InterpretedStep, context: StepContext, iteration?: number): Promise<void> {
+    try {
+      const outcome = await this.handlers.runAction(step, context);
+      this.results.push({
+        step: index + 1,
+        type: step.type,
+        content: step.content,
+        iteration,
+        status: outcome.completed ? 'completed' : 'incomplete',
+        output: truncate(outcome.output),
+        turns: outcome.turns
+      });
+    } catch (error: any) {
+      this.recordFailure(index, step, error, iteration);
+      throw error;
+    }
+  }
+
+  private recordFailure(index: number, step: InterpretedStep, error: any, iteration?: number): void {
+    this.results.push({
+      step: index + 1,
+      type: step.type,
+      content: step.content,
+      iteration,
+      status: 'failed',
+      turns: 0,
+      error: error.message
+    });
+  }
+
+  private skip(start: number, end: number, iteration?: number): void {
+    for (let index = start; index < end; index++) {
+      this.results.push({
+        step: index + 1,
+        type: this.steps[index].type,
+        content: this.steps[index].content,
+        iteration,
+        status: 'skipped',
+        turns: 0
+      });
+    }
+  }
+}
+
+function formatIteration(iteration?: number): string {
+  return iteration ? ` (iteration ${iteration})` : '';
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_LENGTH ? `${text.substring(0, MAX_OUTPUT_LENGTH)}...` : text;
+}
@@ -0,0 +1,314 @@
+import chalk from 'chalk';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SnapshotManager } from './snapshot-manager.js';
+import { git, GitIntegration } from './git-integration.js';
+
+export type IsolationMode = 'none' | 'subdirectory' | 'copy' | 'worktree';
+
+export const ISOLATION_MODES: IsolationMode[] = ['none', 'subdirectory', 'copy', 'worktree'];
+
+export interface WorkspaceManifest {
+  executionId: string;
+  routineId: string;
+  routineName: string;
+  mode: IsolationMode;
+  root: string;          // ワークスペースのルート（copy / worktree の場合は削除対象）
+  path: string;          // ルーチンが作業するディレクトリ
+  createdAt: string;
+  baseHashes: Record<string, string>; // 作成時点のファイルのハッシュ（マージ時の競合検出用）
+}
+
+export interface MergeResult {
+  merged: string[];
+  conflicts: string[];
+}
+
+const WORKSPACE_DIRECTORY = '.aireer-workspaces';
+const SUBDIRECTORY_ROOT = 'routine-workspaces';
+
+// ワークスペースへのコピー・マージの対象外
+const EXCLUDED_NAMES = ['.git', 'node_modules'];
+
+function isExcluded(name: string): boolean {
+  return EXCLUDED_NAMES.includes(name) || name.startsWith('.aireer-');
+}
+
+/**
+ * ディレクトリ内のファイルのハッシュを取得する（除外対象・シンボリックリンクは含めない）
+ */
+function hashTree(directory: string): Record<string, string> {
+  const hashes: Record<string, string> = {};
+
+  const walk = (current: string, relative: string) => {
+    if (!fs.existsSync(current)) {
+      return;
+    }
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      if (isExcluded(entry.name) || entry.isSymbolicLink()) {
+        continue;
+      }
+      const entryPath = path.join(current, entry.name);
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        walk(entryPath, entryRelative);
+      } else if (entry.isFile()) {
+        hashes[entryRelative] = hashFile(entryPath)!;
+      }
+    }
+  };
+
+  walk(directory, '');
+  return hashes;
+}
+
+function hashFile(filePath: string): string | null {
+  if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    return null;
+  }
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * HEAD から作成した worktree に、ワーキングディレクトリのコミットされていない変更と追跡されていないファイルを反映する
+ * （prefix 配下のみ、ignore されたファイルは除く）。反映したファイル数を返す
+ */
+function copyUncommittedChanges(base: string, worktreeRoot: string, prefix: string): number {
+  const repositoryRoot = git(['rev-parse', '--show-toplevel'], base);
+  let copied = 0;
+
+  for (const filepath of new GitIntegration(base).getChangedPaths()) {
+    if (!filepath.startsWith(prefix) || filepath.split('/').some(isExcluded)) {
+      continue;
+    }
+    const source = path.join(repositoryRoot, filepath);
+    const target = path.join(worktreeRoot, filepath);
+    const stat = fs.lstatSync(source, { throwIfNoEntry: false });
+
+    if (!stat) {
+      fs.rmSync(target, { force: true });
+    } else if (stat.isSymbolicLink()) {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.rmSync(target, { force: true });
+      fs.symlinkSync(fs.readlinkSync(source), target);
+    } else if (stat.isFile()) {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(source, target);
+    } else {
+      continue;
+    }
+    copied++;
+  }
+  return copied;
+}
+
+/**
+ * ルーチンごとに分離された作業ディレクトリ
+ * subdirectory: ワーキングディレクトリ内のルーチン専用ディレクトリで作業する（マージなし）
+ * copy / worktree: 実行ごとの複製で作業し、成功後にワーキングディレクトリへマージする
+ */
+export class IsolatedWorkspace {
+  private baseDirectory: string;
+  private manifest: WorkspaceManifest;
+
+  private constructor(baseDirectory: string, manifest: WorkspaceManifest) {
+    this.baseDirectory = path.resolve(baseDirectory);
+    this.manifest = manifest;
+  }
+
+  /**
+   * ルーチン実行用のワークスペースを作成する
+   */
+  static create(
+    baseDirectory: string,
+    mode: Exclude<IsolationMode, 'none'>,
+    executionId: string,
+    routine: { id: string; name: string }
+  ): IsolatedWorkspace {
+    const base = path.resolve(baseDirectory);
+    const manifest: WorkspaceManifest = {
+      executionId,
+      routineId: routine.id,
+      routineName: routine.name,
+      mode,
+      root: '',
+      path: '',
+      createdAt: new Date().toISOString(),
+      baseHashes: {}
+    };
+
+    if (mode === 'subdirectory') {
+      const directory = path.join(base, SUBDIRECTORY_ROOT, routine.id.replace(/[^A-Za-z0-9_-]/g, '_'));
+      fs.mkdirSync(directory, { recursive: true });
+      manifest.root = directory;
+      manifest.path = directory;
+      return new IsolatedWorkspace(base, manifest);
+    }
+
+    const workspacesRoot = path.join(base, WORKSPACE_DIRECTORY);
+    fs.mkdirSync(workspacesRoot, { recursive: true });
+    // ワークスペースがプロジェクトの git に含まれないようにする
+    const ignoreFile = path.join(workspacesRoot, '.gitignore');
+    if (!fs.existsSync(ignoreFile)) {
+      fs.writeFileSync(ignoreFile, '*\n');
+    }
+
+    const root = path.join(workspacesRoot, executionId);
+    manifest.root = root;
+    manifest.path = root;
+
+    if (mode === 'worktree') {
+      try {
+        const prefix = git(['rev-parse', '--show-prefix'], base);
+        git(['worktree', 'add', '--detach', root, 'HEAD'], base);
+        manifest.path = path.join(root, prefix);
+        fs.mkdirSync(manifest.path, { recursive: true });
+        const copied = copyUncommittedChanges(base, root, prefix);
+        if (copied > 0) {
+          console.log(chalk.gray(`📋 Copied ${copied} uncommitted or untracked file(s) into the worktree`));
+        }
+      } catch (error: any) {
+        console.log(chalk.yellow(`⚠️  Could not create a git worktree (${error.message}). Using a copy instead.`));
+        try {
+          git(['worktree', 'remove', '--force', root], base);
+        } catch (removeError) {
+          // 作成前に失敗した場合は登録されていない
+        }
+        fs.rmSync(root, { recursive: true, force: true });
+        manifest.mode = 'copy';
+        manifest.path = root;
+      }
+    }
+
+    if (manifest.mode === 'copy') {
+      // 複製先がワーキングディレクトリ内にあるため、エントリごとにコピーする
+      fs.mkdirSync(root, { recursive: true });
+      for (const name of fs.readdirSync(base)) {
+        if (!isExcluded(name)) {
+          fs.cpSync(path.join(base, name), path.join(root, name), {
+            recursive: true,
+            filter: source => !isExcluded(path.basename(source))
+          });
+        }
+      }
+    }
+
+    // 依存パッケージは複製せず、元のディレクトリを参照する
+    const nodeModules = path.join(base, 'node_modules');
+    const linkedModules = path.join(manifest.path, 'node_modules');
+    if (fs.existsSync(nodeModules) && !fs.existsSync(linkedModules)) {
+      fs.symlinkSync(nodeModules, linkedModules, 'dir');
+    }
+
+    manifest.baseHashes = hashTree(manifest.path);
+    const workspace = new IsolatedWorkspace(base, manifest);
+    workspace.saveManifest();
+    return workspace;
+  }
+
+  /**
+   * 残っているワークスペースを読み込む
+   */
+  static load(baseDirectory: string, executionId: string): IsolatedWorkspace | null {
+    const manifestPath = path.join(baseDirectory, WORKSPACE_DIRECTORY, `${executionId}.json`);
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+    return new IsolatedWorkspace(baseDirectory, JSON.parse(fs.readFileSync(manifestPath, 'utf-8')));
+  }
+
+  /**
+   * マージ・削除されずに残っているワークスペースの一覧
+   */
+  static list(baseDirectory: string): WorkspaceManifest[] {
+    const workspacesRoot = path.join(baseDirectory, WORKSPACE_DIRECTORY);
+    if (!fs.existsSync(workspacesRoot)) {
+      return [];
+    }
+    return fs.readdirSync(workspacesRoot)
+      .filter(name => name.endsWith('.json'))
+      .map(name => JSON.parse(fs.readFileSync(path.join(workspacesRoot, name), 'utf-8')) as WorkspaceManifest)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  getManifest(): WorkspaceManifest {
+    return this.manifest;
+  }
+
+  getPath(): string {
+    return this.manifest.path;
+  }
+
+  getMode(): IsolationMode {
+    return this.manifest.mode;
+  }
+
+  needsMerge(): boolean {
+    return this.manifest.mode === 'copy' || this.manifest.mode === 'worktree';
+  }
+
+  /**
+   * ワークスペースでの変更をワーキングディレクトリに反映する
+   * ワークスペース作成後にワーキングディレクトリ側でも変更されたファイルは競合として反映しない
+   */
+  merge(snapshots?: SnapshotManager): MergeResult {
+    const result: MergeResult = { merged: [], conflicts: [] };
+    const baseHashes = this.manifest.baseHashes;
+    const currentHashes = hashTree(this.manifest.path);
+    const changed = [...new Set([...Object.keys(baseHashes), ...Object.keys(currentHashes)])]
+      .filter(filepath => baseHashes[filepath] !== currentHashes[filepath])
+      .sort();
+
+    for (const filepath of changed) {
+      const target = path.join(this.baseDirectory, filepath);
+      const workspaceHash = currentHashes[filepath] ?? null;
+      const mainHash = hashFile(target);
+
+      if (mainHash === workspaceHash) {
+        continue;
+      }
+      if (mainHash !== (baseHashes[filepath] ?? null)) {
+        result.conflicts.push(filepath);
+        continue;
+      }
+
+      snapshots?.capture(filepath);
+      if (workspaceHash === null) {
+        fs.rmSync(target, { force: true });
+      } else {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.copyFileSync(path.join(this.manifest.path, filepath), target);
+      }
+      result.merged.push(filepath);
+    }
+
+    return result;
+  }
+
+  /**
+   * ワークスペースを削除する（subdirectory はルーチンの作業結果なので残す）
+   */
+  discard(): void {
+    if (!this.needsMerge()) {
+      return;
+    }
+
+    if (this.manifest.mode === 'worktree') {
+      try {
+        git(['worktree', 'remove', '--force', this.manifest.root], this.baseDirectory);
+      } catch (error) {
+        // 登録が壊れている場合もディレクトリは削除する
+      }
+    }
+    fs.rmSync(this.manifest.root, { recursive: true, force: true });
+    fs.rmSync(path.join(this.baseDirectory, WORKSPACE_DIRECTORY, `${this.manifest.executionId}.json`), { force: true });
+  }
+
+  private saveManifest(): void {
+    fs.writeFileSync(
+      path.join(this.baseDirectory, WORKSPACE_DIRECTORY, `${this.manifest.executionId}.json`),
+      JSON.stringify(this.manifest, null, 2)
+    );
+  }
+}
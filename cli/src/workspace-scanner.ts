@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileManager } from './file-manager.js';
+
+export interface WorkspaceFile {
+  path: string;
+  size: number;
+  modified: Date;
+}
+
+export interface ScanOptions {
+  tokenBudget?: number; // 一覧に使うトークン数の上限
+}
+
+interface IgnoreRule {
+  base: string;      // ルールを定義したファイルのディレクトリ（ワークスペースからの相対パス）
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 2000;
+
+const IGNORE_FILES = ['.gitignore', '.aireerignore'];
+
+// ignore ファイルがなくても常に除外するもの
+const DEFAULT_IGNORE_PATTERNS = ['.git/', 'node_modules/', '.aireer-*'];
+
+/**
+ * トークン数を概算する（1トークン ≒ 4文字）
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * .gitignore 形式のパターンを正規表現に変換する
+ */
+function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" は0個以上のディレクトリ、末尾の "**" はすべてに一致
+        if (pattern[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i++;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        regex += '\\[';
+      } else {
+        regex += `[${pattern.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      regex += `\\${pattern[++i]}`;
+    } else {
+      regex += char.replace(/[.+^${}()|\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+function parseIgnoreRule(line: string, base: string): IgnoreRule | null {
+  let pattern = line.replace(/\r$/, '');
+  if (!pattern.trim() || pattern.startsWith('#')) {
+    return null;
+  }
+  // エスケープされていない末尾の空白は無視する
+  pattern = pattern.replace(/(?<!\\)\s+$/, '');
+
+  const negate = pattern.startsWith('!');
+  if (negate) {
+    pattern = pattern.substring(1);
+  }
+  if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+    pattern = pattern.substring(1);
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) {
+    pattern = pattern.replace(/\/+$/, '');
+  }
+
+  // 途中に "/" を含むパターンは定義したディレクトリからの相対パス、含まない場合は任意の階層の名前に一致
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!pattern) {
+    return null;
+  }
+
+  const regex = globToRegExp(anchored ? pattern : `**/${pattern}`);
+  return { base, regex, negate, directoryOnly };
+}
+
+/**
+ * .gitignore と .aireerignore に基づいてワークスペースのファイルを除外する
+ */
+export class IgnoreMatcher {
+  private baseDirectory: string;
+  private rulesByDirectory = new Map<string, IgnoreRule[]>();
+  private defaultRules: IgnoreRule[];
+
+  constructor(baseDirectory: string) {
+    this.baseDirectory = path.resolve(baseDirectory);
+    this.defaultRules = DEFAULT_IGNORE_PATTERNS
+      .map(pattern => parseIgnoreRule(pattern, ''))
+      .filter((rule): rule is IgnoreRule => rule !== null);
+  }
+
+  /**
+   * ワークスペースからの相対パスが除外対象かどうかを判定する（後に定義されたルールが優先）
+   */
+  isIgnored(relativePath: string, isDirectory: boolean): boolean {
+    const normalized = relativePath.split(path.sep).join('/');
+    const parts = normalized.split('/');
+
+    // ルートから順に各階層の ignore ファイルのルールを適用する
+    const rules = [...this.defaultRules];
+    for (let depth = 0; depth < parts.length; depth++) {
+      rules.push(...this.getRules(parts.slice(0, depth).join('/')));
+    }
+
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      const target = rule.base ? this.relativeTo(rule.base, normalized) : normalized;
+      if (target !== null && rule.regex.test(target)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+
+  private relativeTo(base: string, normalized: string): string | null {
+    return normalized.startsWith(`${base}/`) ? normalized.substring(base.length + 1) : null;
+  }
+
+  private getRules(directory: string): IgnoreRule[] {
+    const cached = this.rulesByDirectory.get(directory);
+    if (cached) {
+      return cached;
+    }
+
+    const rules: IgnoreRule[] = [];
+    for (const ignoreFile of IGNORE_FILES) {
+      const filePath = path.join(this.baseDirectory, directory, ignoreFile);
+      try {
+        if (fs.existsSync(filePath)) {
+          for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+            const rule = parseIgnoreRule(line, directory);
+            if (rule) {
+              rules.push(rule);
+            }
+          }
+        }
+      } catch (error) {
+        // 読み込めない ignore ファイルは無視する
+      }
+    }
+
+    this.rulesByDirectory.set(directory, rules);
+    return rules;
+  }
+}
+
+/**
+ * 除外対象を除いたワークスペースのファイルを、更新日時の新しい順に取得する
+ */
+export function scanWorkspace(fileManager: FileManager, baseDirectory: string): WorkspaceFile[] {
+  const matcher = new IgnoreMatcher(baseDirectory);
+  const files = fileManager.listFiles('.', true, (relativePath, isDirectory) => !matcher.isIgnored(relativePath, isDirectory));
+
+  return files
+    .map(filepath => {
+      const info = fileManager.getFileInfo(filepath);
+      return { path: filepath.split(path.sep).join('/'), size: info.size, modified: info.modified };
+    })
+    .sort((a, b) => b.modified.getTime() - a.modified.getTime());
+}
+
+function formatSize(size: number): string {
+  if (size < 1024) {
+    return `${size}B`;
+  }
+  if (size < 1024 * 1024) {
+    return `${(size / 1024).toFixed(1)}KB`;
+  }
+  return `${(size / 1024 / 1024).toFixed(1)}MB`;
+}
+
+function formatModified(modified: Date): string {
+  const iso = modified.toISOString();
+  return `${iso.substring(0, 10)} ${iso.substring(11, 16)}`;
+}
+
+/**
+ * プロンプトに含めるワークスペースの一覧を、トークン数の上限内で生成する
+ */
+export function describeWorkspace(
+  fileManager: FileManager,
+  baseDirectory: string,
+  options: ScanOptions = {}
+): string {
+  const tokenBudget = options.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+  const files = scanWorkspace(fileManager, baseDirectory);
+
+  if (files.length === 0) {
+    return 'The working directory is empty.';
+  }
+
+  let listing = `${files.length} files (most recently modified first; size, last modified UTC):\n`;
+  let tokens = estimateTokens(listing);
+  let shown = 0;
+
+  for (const file of files) {
+    const line = `${file.path}  ${formatSize(file.size)}  ${formatModified(file.modified)}\n`;
+    const lineTokens = estimateTokens(line);
+    if (tokens + lineTokens > tokenBudget) {
+      break;
+    }
+    listing += line;
+    tokens += lineTokens;
+    shown++;
+  }
+
+  if (shown < files.length) {
+    listing += `... ${files.length - shown} older files omitted (use type="list" to see them)\n`;
+  }
+  return listing;
+}
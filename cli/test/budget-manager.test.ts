@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BudgetManager, LLMUsage } from '../src/budget-manager.js';
+
+const usage = (inputTokens: number, outputTokens: number, cost: number = 0): LLMUsage => ({ inputTokens, outputTokens, cost, estimated: false });
+
+describe('BudgetManager', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aireer-budget-'));
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 0, 31, 12, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('measureUsage', () => {
+    it.each([
+      ['Gemini usageMetadata', { usageMetadata: { promptTokenCount: 120, candidatesTokenCount: 30 } }],
+      ['API usage', { data: { usage: { prompt_tokens: 120, completion_tokens: 30 } } }],
+      ['camelCase usage', { usage: { inputTokens: 120, outputTokens: 30 } }]
+    ])('reads %s', (_, rawResponse) => {
+      const manager = new BudgetManager(directory);
+      expect(manager.measureUsage('prompt', 'content', rawResponse)).toEqual({
+        inputTokens: 120,
+        outputTokens: 30,
+        cost: (120 * 0.1 + 30 * 0.4) / 1_000_000,
+        estimated: false
+      });
+    });
+
+    it('prefers a cost reported by the API', () => {
+      const manager = new BudgetManager(directory);
+      expect(manager.measureUsage('prompt', 'content', { data: { usage: { input_tokens: 1, output_tokens: 2 }, cost: 0.5 } }).cost).toBe(0.5);
+    });
+
+    it('estimates usage from the text when the response has none', () => {
+      const manager = new BudgetManager(directory);
+      const measured = manager.measureUsage('a'.repeat(400), null, {});
+      expect(measured.estimated).toBe(true);
+      expect(measured.inputTokens).toBeGreaterThan(0);
+      expect(measured.outputTokens).toBe(0);
+    });
+  });
+
+  describe('checkDaily', () => {
+    it('allows any usage without limits', async () => {
+      const manager = new BudgetManager(directory);
+      await manager.record('routine-a', usage(1_000_000, 1_000_000, 100));
+      expect(manager.checkDaily('routine-a', 1_000_000)).toBeNull();
+    });
+
+    it('rejects a call that would go over the daily token limit', async () => {
+      const manager = new BudgetManager(directory);
+      manager.setSetting('maxTokensPerDay', 1000);
+      await manager.record('routine-a', usage(600, 200));
+      expect(manager.checkDaily(undefined, 200)).toBeNull();
+      expect(manager.checkDaily(undefined, 201)).toMatch(/^Daily token budget exhausted \(800 used \+ 201 requested, limit: 1,000\)/);
+    });
+
+    it('rejects calls once the daily cost limit is used up', async () => {
+      const manager = new BudgetManager(directory);
+      manager.setSetting('maxCostPerDay', 0.01);
+      await manager.record('routine-a', usage(10, 10, 0.004));
+      expect(manager.checkDaily()).toBeNull();
+      await manager.record('routine-b', usage(10, 10, 0.006));
+      expect(manager.checkDaily()).toMatch(/^Daily cost budget exhausted/);
+    });
+
+    it('applies the routine limit to each routine separately', async () => {
+      const manager = new BudgetManager(directory);
+      manager.setSetting('maxTokensPerRoutinePerDay', 100);
+      await manager.record('routine-a', usage(80, 20));
+      expect(manager.checkDaily('routine-a')).toMatch(/^Daily routine token budget exhausted/);
+      expect(manager.checkDaily('routine-b')).toBeNull();
+    });
+
+    it('counts usage recorded by another process', async () => {
+      const manager = new BudgetManager(directory);
+      manager.setSetting('maxTokensPerDay', 100);
+      await new BudgetManager(directory).record('routine-a', usage(100, 0));
+      expect(manager.checkDaily()).toMatch(/token budget exhausted/);
+    });
+  });
+
+  describe('forExecution', () => {
+    it('throws BUDGET_EXCEEDED once the execution limit is reached', async () => {
+      const manager = new BudgetManager(directory);
+      manager.setSetting('maxTokensPerExecution', 50);
+      const budget = manager.forExecution('routine-a');
+      budget.check('short prompt');
+      await budget.record('short prompt', 'reply', { usage: { inputTokens: 40, outputTokens: 10 } });
+
+      expect(budget.getUsed()).toEqual({ tokens: 50, cost: (40 * 0.1 + 10 * 0.4) / 1_000_000, calls: 1 });
+      expect(() => budget.check('short prompt')).toThrow(expect.objectContaining({
+        code: 'BUDGET_EXCEEDED',
+        message: expect.stringMatching(/^LLM budget exceeded: Execution token budget exhausted/)
+      }));
+      // A new execution starts from zero
+      expect(() => manager.forExecution('routine-a').check('short prompt')).not.toThrow();
+    });
+  });
+
+  it('rejects unknown settings and invalid values', () => {
+    const manager = new BudgetManager(directory);
+    expect(manager.setSetting('maxTokens', 10)).toBe(false);
+    expect(manager.setSetting('maxTokensPerDay', -1)).toBe(false);
+    expect(manager.setSetting('maxTokensPerDay', 10)).toBe(true);
+    expect(new BudgetManager(directory).getSettings().maxTokensPerDay).toBe(10);
+  });
+
+  it('keeps only the most recent 30 days of usage', async () => {
+    const days: Record<string, unknown> = {};
+    for (let day = 1; day <= 30; day++) {
+      days[`2026-01-${String(day).padStart(2, '0')}`] = { total: { tokens: day, cost: 0, calls: 1 }, routines: {} };
+    }
+    fs.writeFileSync(path.join(directory, '.aireer-budget.json'), JSON.stringify({ settings: {}, days }));
+
+    await new BudgetManager(directory).record('routine-a', usage(1, 0));
+
+    const saved = JSON.parse(fs.readFileSync(path.join(directory, '.aireer-budget.json'), 'utf-8'));
+    expect(Object.keys(saved.days)).toHaveLength(30);
+    expect(saved.days['2026-01-01']).toBeUndefined();
+    expect(saved.days['2026-01-31'].total).toEqual({ tokens: 1, cost: 0, calls: 1 });
+    // The lock is released after recording
+    expect(fs.readdirSync(path.join(directory, '.aireer-locks'))).toEqual([]);
+  });
+});
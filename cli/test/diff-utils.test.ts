@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { applyLineEdit, applySearchReplace, applyUnifiedDiff, createUnifiedDiff } from '../src/diff-utils.js';
+
+const numbered = (count: number) => Array.from({ length: count }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+
+describe('applyUnifiedDiff', () => {
+  it('applies a diff created by createUnifiedDiff', () => {
+    const before = numbered(10);
+    const after = before.replace('line 5\n', 'line five\n').replace('line 9\n', '');
+    expect(applyUnifiedDiff(before, createUnifiedDiff('a.txt', before, after))).toBe(after);
+  });
+
+  it('applies hunks whose line numbers are off by an offset', () => {
+    const content = 'header\nextra\n' + numbered(5);
+    const diff = '--- a/a.txt\n+++ b/a.txt\n@@ -2,3 +2,3 @@\n line 2\n-line 3\n+line three\n line 4\n';
+    expect(applyUnifiedDiff(content, diff)).toBe('header\nextra\nline 1\nline 2\nline three\nline 4\nline 5\n');
+  });
+
+  it('applies a hunk to the match nearest to its line number', () => {
+    const content = 'a\nb\nc\na\nb\nc\na\nb\nc\n';
+    const diff = '@@ -7,2 +7,2 @@\n a\n-b\n+B\n';
+    expect(applyUnifiedDiff(content, diff)).toBe('a\nb\nc\na\nb\nc\na\nB\nc\n');
+  });
+
+  it('rejects hunks whose context does not match without fuzz', () => {
+    const diff = '@@ -1,2 +1,2 @@\n line 1\n-line 2 changed\n+line two\n';
+    expect(() => applyUnifiedDiff(numbered(3), diff)).toThrow(/Hunk 1 .* does not apply/);
+  });
+
+  it('treats added lines starting with "++ " as content, not a file header', () => {
+    const diff = '--- a/notes.md\n+++ b/notes.md\n@@ -1,1 +1,3 @@\n line 1\n+++ counter\n+-- separator\n';
+    expect(applyUnifiedDiff('line 1\n', diff)).toBe('line 1\n++ counter\n-- separator\n');
+  });
+
+  it('rejects a diff that changes several files', () => {
+    const diff = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-line 1\n+one\n--- a/b.txt\n+++ b/b.txt\n@@ -1 +1 @@\n-line 1\n+uno\n';
+    expect(() => applyUnifiedDiff(numbered(1), diff)).toThrow(/more than one file/);
+  });
+
+  it('keeps CRLF line endings and accepts a CRLF diff', () => {
+    const content = 'one\r\ntwo\r\nthree\r\n';
+    expect(applyUnifiedDiff(content, '@@ -2 +2 @@\n-two\n+2\n')).toBe('one\r\n2\r\nthree\r\n');
+    expect(applyUnifiedDiff(content, '@@ -2 +2 @@\r\n-two\r\n+2\r\n')).toBe('one\r\n2\r\nthree\r\n');
+  });
+});
+
+describe('applySearchReplace', () => {
+  it('replaces text that matches exactly once', () => {
+    expect(applySearchReplace('const a = 1;\nconst b = 2;\n', 'b = 2', 'b = 3')).toBe('const a = 1;\nconst b = 3;\n');
+  });
+
+  it('rejects text that is missing or matches several places', () => {
+    expect(() => applySearchReplace('a\nb\n', 'c', 'd')).toThrow(/not found/);
+    expect(() => applySearchReplace('x = 1;\nx = 1;\n', 'x = 1;', 'x = 2;')).toThrow(/matches 2 places/);
+  });
+
+  it('matches LF search text in a CRLF file', () => {
+    expect(applySearchReplace('a\r\nb\r\nc\r\n', 'a\nb', 'a\nB')).toBe('a\r\nB\r\nc\r\n');
+  });
+});
+
+describe('applyLineEdit', () => {
+  it('replaces the last lines of a file', () => {
+    expect(applyLineEdit(numbered(3), 2, 3, 'line 2\nline 3', 'end')).toBe('line 1\nend\n');
+  });
+
+  it('keeps a missing trailing newline', () => {
+    expect(applyLineEdit('a\nb', 2, 2, 'b', 'B')).toBe('a\nB');
+  });
+
+  it('rejects ranges past the end of the file', () => {
+    expect(() => applyLineEdit(numbered(3), 3, 4, 'line 3\nline 4', 'x')).toThrow('Lines 3-4 are out of range (the file has 3 lines)');
+  });
+
+  it('rejects lines that no longer match the search text', () => {
+    expect(() => applyLineEdit(numbered(3), 2, 2, 'line two', 'x')).toThrow(/no longer match/);
+  });
+
+  it('edits CRLF files', () => {
+    expect(applyLineEdit('a\r\nb\r\n', 1, 1, 'a', 'A')).toBe('A\r\nb\r\n');
+  });
+});
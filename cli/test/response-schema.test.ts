@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { parseConditionResponse, parseLLMResponse } from '../src/response-schema.js';
+
+describe('parseLLMResponse', () => {
+  it('accepts an operations array', () => {
+    const validation = parseLLMResponse(JSON.stringify({
+      operations: [
+        { type: 'create', filepath: 'a.txt', file: '' },
+        { type: 'execute', command: 'npm test', directory: 'cli' },
+        { type: 'done', summary: 'created a.txt' }
+      ]
+    }), 10);
+    expect(validation.errors).toEqual([]);
+    expect(validation.operations.map(operation => operation.type)).toEqual(['create', 'execute', 'done']);
+  });
+
+  it('accepts a single legacy operation and JSON inside a code fence', () => {
+    expect(parseLLMResponse('{"type": "read", "filepath": "README.md"}', 10).operations).toHaveLength(1);
+    expect(parseLLMResponse('Here you go:\n```json\n{"operations": [{"type": "list"}]}\n```', 10).operations).toHaveLength(1);
+  });
+
+  it('rejects responses that are not a single JSON object', () => {
+    expect(parseLLMResponse('I will create the file now.', 10).errors).toEqual(['Response does not contain a JSON object']);
+    expect(parseLLMResponse('```json\n{}\n```\n```json\n{}\n```', 10).errors[0]).toMatch(/2 code blocks/);
+    expect(parseLLMResponse('{"operations": [}', 10).errors[0]).toMatch(/not valid JSON/);
+  });
+
+  it('rejects empty, oversized and unknown top-level responses', () => {
+    expect(parseLLMResponse('{"operations": []}', 10).errors).toEqual(['"operations" must contain at least one operation']);
+    expect(parseLLMResponse('[{"type": "done"}, {"type": "done"}]', 1).errors[0]).toMatch(/limit: 1/);
+    expect(parseLLMResponse('{"operations": [{"type": "done"}], "note": "x"}', 10).errors[0]).toMatch(/Unknown top-level field/);
+  });
+
+  it('reports missing, mistyped and unknown fields with hints', () => {
+    const validation = parseLLMResponse(JSON.stringify({
+      operations: [
+        { type: 'create', path: 'a.txt', content: 'x' },
+        { type: 'edit_lines', filepath: 'a.txt', startLine: 3, endLine: 2, search: 'a', replace: 'b' },
+        { type: 'execute', command: '' },
+        { type: 'rename', filepath: 'a.txt' }
+      ]
+    }), 10);
+    expect(validation.response).toBeNull();
+    expect(validation.errors).toEqual(expect.arrayContaining([
+      'operations[0]: create requires "filepath"',
+      'operations[0]: unknown field "path" for create (use "filepath")',
+      'operations[0]: unknown field "content" for create (use "file")',
+      'operations[2]: "command" must not be empty'
+    ]));
+    expect(validation.errors.some(error => error.startsWith('operations[1]:'))).toBe(true);
+    expect(validation.errors.some(error => error.startsWith('operations[3]: unknown type "rename"'))).toBe(true);
+  });
+});
+
+describe('parseConditionResponse', () => {
+  it('accepts a result with a reason', () => {
+    const validation = parseConditionResponse('{"result": false, "reason": "tests still fail"}', 10);
+    expect(validation.response).toEqual({ result: false, reason: 'tests still fail' });
+    expect(validation.operations).toEqual([]);
+  });
+
+  it('rejects a result that is not a boolean or has extra fields', () => {
+    expect(parseConditionResponse('{"result": "yes"}', 10).errors).toEqual(['"result" must be true or false']);
+    expect(parseConditionResponse('{"result": true, "operations": []}', 10).errors[0]).toMatch(/Unknown top-level field/);
+  });
+
+  it('accepts read-only inspection operations', () => {
+    const validation = parseConditionResponse('{"operations": [{"type": "read", "filepath": "a.txt"}, {"type": "search", "pattern": "TODO"}]}', 10);
+    expect(validation.errors).toEqual([]);
+    expect(validation.operations).toHaveLength(2);
+  });
+
+  it.each([
+    ['{"type": "execute", "command": "npm test"}', 'execute'],
+    ['{"type": "create", "filepath": "a.txt", "file": "x"}', 'create'],
+    ['{"type": "delete", "filepath": "a.txt"}', 'delete']
+  ])('rejects %s while evaluating a condition', (operation, type) => {
+    const validation = parseConditionResponse(`{"operations": [${operation}]}`, 10);
+    expect(validation.response).toBeNull();
+    expect(validation.errors).toEqual([`operations[0]: ${type} is not allowed while evaluating a condition (use read, list, search)`]);
+  });
+
+  it('asks for a result when the response is neither a result nor operations', () => {
+    expect(parseConditionResponse('The condition holds.', 10).errors).toContain('To answer, return {"result": true|false, "reason": "..."}');
+  });
+});
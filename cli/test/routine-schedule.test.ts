@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatSchedule,
+  getLocalDate,
+  getNextEligibleTime,
+  parseTimeWindow,
+  RoutineSchedule,
+  validateCron
+} from '../src/routine-schedule.js';
+
+const at = (iso: string) => new Date(iso);
+const next = (schedule: RoutineSchedule | undefined, now: string, lastExecuted?: string, dailyRuns?: { date: string; count: number }, cooldown: number = 0) =>
+  getNextEligibleTime(schedule, lastExecuted, dailyRuns, cooldown, at(now))?.toISOString() ?? null;
+
+describe('validateCron', () => {
+  it.each([
+    '*/15 * * * *',
+    '0 9-17 * * mon-fri',
+    '30 2 1,15 jan,jul *',
+    '0 0 * * 7'
+  ])('accepts "%s"', expression => {
+    expect(validateCron(expression)).toBeNull();
+  });
+
+  it.each([
+    ['* * * *', /needs 5 fields/],
+    ['60 * * * *', /out of range for the minute field/],
+    ['0 24 * * *', /out of range for the hour field/],
+    ['0 0 0 * *', /out of range for the day field/],
+    ['0 0 * foo *', /Invalid value "foo" in the month field/],
+    ['*/0 * * * *', /Invalid step "0"/],
+    ['0 0 * * fri-mon', /out of range for the weekday field/]
+  ])('rejects "%s"', (expression, message) => {
+    expect(validateCron(expression)).toMatch(message);
+  });
+});
+
+describe('getNextEligibleTime', () => {
+  it('applies only the cooldown without a schedule', () => {
+    expect(next(undefined, '2026-01-05T10:00:00Z', '2026-01-05T09:59:00Z', undefined, 300)).toBe('2026-01-05T10:04:00.000Z');
+  });
+
+  it('waits for the next cron time after the last execution', () => {
+    const schedule = { cron: '0 9 * * mon-fri', timezone: 'UTC' };
+    // 2026-01-02 is a Friday
+    expect(next(schedule, '2026-01-02T10:00:00Z', '2026-01-02T09:00:30Z')).toBe('2026-01-05T09:00:00.000Z');
+    // A missed cron time can still run
+    expect(next(schedule, '2026-01-05T12:00:00Z', '2026-01-02T09:00:30Z')).toBe('2026-01-05T12:00:00.000Z');
+  });
+
+  it('starts the cron from the time it was set when the routine has not run', () => {
+    expect(next({ cron: '*/30 * * * *', timezone: 'UTC', since: '2026-01-05T10:10:00Z' }, '2026-01-05T10:15:00Z')).toBe('2026-01-05T10:30:00.000Z');
+  });
+
+  it('matches either the day or the weekday when both are restricted', () => {
+    // The 13th (a Tuesday) comes before the next Friday
+    expect(next({ cron: '0 0 13 * fri', timezone: 'UTC' }, '2026-01-10T00:00:00Z', '2026-01-10T00:00:00Z')).toBe('2026-01-13T00:00:00.000Z');
+  });
+
+  it('evaluates the cron in the schedule timezone', () => {
+    // 09:00 in Tokyo is 00:00 UTC
+    expect(next({ cron: '0 9 * * *', timezone: 'Asia/Tokyo' }, '2026-01-05T01:00:00Z', '2026-01-05T00:00:00Z')).toBe('2026-01-06T00:00:00.000Z');
+  });
+
+  it('finds cron times across daylight saving changes', () => {
+    // New York switches to daylight saving time on 2026-03-08
+    const schedule = { cron: '30 0 * * *', timezone: 'America/New_York' };
+    expect(next(schedule, '2026-03-07T06:00:00Z', '2026-03-07T05:30:00Z')).toBe('2026-03-08T05:30:00.000Z');
+    expect(next(schedule, '2026-03-08T06:00:00Z', '2026-03-08T05:30:00Z')).toBe('2026-03-09T04:30:00.000Z');
+  });
+
+  it('finds rare dates and gives up on dates that never exist', () => {
+    expect(next({ cron: '0 0 29 2 *', timezone: 'UTC' }, '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    expect(next({ cron: '0 0 30 2 *', timezone: 'UTC' }, '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')).toBeNull();
+    expect(next({ cron: '0 0 31 4,6 *', timezone: 'UTC' }, '2026-01-01T00:00:00Z')).toBeNull();
+  });
+
+  it('waits for the next window', () => {
+    const schedule = { windows: [parseTimeWindow('mon-fri 09:00-18:00')], timezone: 'UTC' };
+    expect(next(schedule, '2026-01-05T12:00:00Z')).toBe('2026-01-05T12:00:00.000Z');
+    expect(next(schedule, '2026-01-05T18:00:00Z')).toBe('2026-01-06T09:00:00.000Z');
+    // Saturday waits for Monday
+    expect(next(schedule, '2026-01-03T12:00:00Z')).toBe('2026-01-05T09:00:00.000Z');
+  });
+
+  it('continues an overnight window into the next day', () => {
+    const schedule = { windows: [parseTimeWindow('fri 22:00-06:00')], timezone: 'UTC' };
+    expect(next(schedule, '2026-01-03T05:00:00Z')).toBe('2026-01-03T05:00:00.000Z');
+    expect(next(schedule, '2026-01-03T06:00:00Z')).toBe('2026-01-09T22:00:00.000Z');
+  });
+
+  it('waits for the next day once maxRunsPerDay is reached', () => {
+    const schedule = { maxRunsPerDay: 2, timezone: 'Asia/Tokyo' };
+    // 2026-01-05T10:00Z is 19:00 on 2026-01-05 in Tokyo
+    expect(next(schedule, '2026-01-05T10:00:00Z', undefined, { date: '2026-01-05', count: 1 })).toBe('2026-01-05T10:00:00.000Z');
+    expect(next(schedule, '2026-01-05T10:00:00Z', undefined, { date: '2026-01-05', count: 2 })).toBe('2026-01-05T15:00:00.000Z');
+    // Runs counted on an earlier day do not apply
+    expect(next(schedule, '2026-01-05T10:00:00Z', undefined, { date: '2026-01-04', count: 2 })).toBe('2026-01-05T10:00:00.000Z');
+  });
+});
+
+describe('parseTimeWindow', () => {
+  it('parses day keywords and lists', () => {
+    expect(parseTimeWindow('9:00-18:00')).toEqual({ days: [0, 1, 2, 3, 4, 5, 6], start: '09:00', end: '18:00' });
+    expect(parseTimeWindow('weekends 10:00-12:00').days).toEqual([0, 6]);
+    expect(parseTimeWindow('sat,sun,wed 22:00-24:00').days).toEqual([0, 3, 6]);
+  });
+
+  it.each([
+    ['mon-fri', /Invalid time window/],
+    ['10:60-11:00', /Invalid time "10:60"/],
+    ['24:00-01:00', /Invalid time "24:00"/],
+    ['10:00-10:00', /is empty/]
+  ])('rejects "%s"', (text, message) => {
+    expect(() => parseTimeWindow(text)).toThrow(message);
+  });
+});
+
+describe('formatSchedule', () => {
+  it('describes every part of the schedule', () => {
+    expect(formatSchedule({
+      cron: '0 9 * * *',
+      windows: [parseTimeWindow('mon-fri 09:00-18:00')],
+      cooldown: 600,
+      maxRunsPerDay: 3,
+      timezone: 'Asia/Tokyo'
+    })).toBe('cron "0 9 * * *", mon-fri 09:00-18:00, cooldown 600s, max 3 run(s)/day (Asia/Tokyo)');
+  });
+});
+
+describe('getLocalDate', () => {
+  it('uses the date in the timezone', () => {
+    expect(getLocalDate(at('2026-01-05T20:00:00Z'), 'Asia/Tokyo')).toBe('2026-01-06');
+    expect(getLocalDate(at('2026-01-05T20:00:00Z'), 'UTC')).toBe('2026-01-05');
+  });
+});
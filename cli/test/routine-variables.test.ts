@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  applyVariables,
+  findUndeclaredReferences,
+  loadVariablesFile,
+  parseVariableAssignments,
+  parseVariableDeclarations,
+  resolveVariables
+} from '../src/routine-variables.js';
+
+describe('parseVariableDeclarations', () => {
+  it('accepts type shorthands and infers the type from the default', () => {
+    expect(parseVariableDeclarations({ topic: 'string', count: { default: 3 }, verbose: { type: 'boolean', description: 'More output' } })).toEqual({
+      topic: { type: 'string' },
+      count: { type: 'number', default: 3 },
+      verbose: { type: 'boolean', description: 'More output' }
+    });
+    expect(parseVariableDeclarations(undefined)).toBeUndefined();
+  });
+
+  it.each([
+    [[], /must be a map/],
+    [{ 'my-topic': 'string' }, /may only contain/],
+    [{ topic: 'date' }, /unknown type "date"/],
+    [{ count: { type: 'number', default: 'three' } }, /must be a number/]
+  ])('rejects %j', (data, message) => {
+    expect(() => parseVariableDeclarations(data)).toThrow(message);
+  });
+});
+
+describe('parseVariableAssignments', () => {
+  it('splits name=value at the first equals sign', () => {
+    expect(parseVariableAssignments(['topic=a=b', 'empty='])).toEqual({ topic: 'a=b', empty: '' });
+  });
+
+  it('rejects assignments without a valid name', () => {
+    expect(() => parseVariableAssignments(['topic'])).toThrow('Invalid variable "topic"');
+    expect(() => parseVariableAssignments(['1st=x'])).toThrow('Invalid variable "1st=x"');
+  });
+});
+
+describe('loadVariablesFile', () => {
+  it('reads JSON and YAML maps', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aireer-vars-'));
+    fs.writeFileSync(path.join(directory, 'vars.json'), '{"topic": "json"}');
+    fs.writeFileSync(path.join(directory, 'vars.yaml'), 'topic: yaml\ncount: 2\n');
+    fs.writeFileSync(path.join(directory, 'list.yaml'), '- a\n- b\n');
+
+    try {
+      expect(loadVariablesFile(path.join(directory, 'vars.json'))).toEqual({ topic: 'json' });
+      expect(loadVariablesFile(path.join(directory, 'vars.yaml'))).toEqual({ topic: 'yaml', count: 2 });
+      expect(() => loadVariablesFile(path.join(directory, 'list.yaml'))).toThrow('list.yaml must contain a map');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('resolveVariables', () => {
+  const variables = parseVariableDeclarations({
+    topic: 'string',
+    count: { type: 'number', default: 1 },
+    verbose: { type: 'boolean', default: false }
+  });
+
+  it('prefers --var over the variables file, the environment and the default', () => {
+    const resolution = resolveVariables(variables, {
+      cli: { topic: 'cli' },
+      file: { topic: 'file', count: 5 },
+      env: { AIREER_VAR_TOPIC: 'env', AIREER_VAR_VERBOSE: 'yes' }
+    });
+    expect(resolution).toEqual({ values: { topic: 'cli', count: 5, verbose: true }, missing: [], errors: [], unknown: [] });
+  });
+
+  it('reports missing, invalid and undeclared variables', () => {
+    const resolution = resolveVariables(variables, { cli: { count: 'many', extra: 'x' }, file: { other: 1 }, env: {} });
+    expect(resolution.missing).toEqual(['topic']);
+    expect(resolution.errors).toEqual(['count must be a number (got "many" from --var)']);
+    expect(resolution.unknown).toEqual(['extra', 'other']);
+  });
+});
+
+describe('applyVariables', () => {
+  it('replaces declared references in the description, steps and parameters', () => {
+    const routine = {
+      name: '{{topic}}',
+      description: 'Report on {{ topic }}',
+      steps: [{ content: 'Write {{count}} notes on {{topic}} and {{unknown}}', parameters: { files: ['{{topic}}.md'], depth: 2 } }]
+    };
+    expect(applyVariables(routine, { topic: 'ai', count: 3 })).toEqual({
+      name: '{{topic}}',
+      description: 'Report on ai',
+      steps: [{ content: 'Write 3 notes on ai and {{unknown}}', parameters: { files: ['ai.md'], depth: 2 } }]
+    });
+  });
+
+  it('finds references to variables that are not declared', () => {
+    const routine = { steps: [{ content: '{{topic}} {{other}}' }, { content: '{{other}} {{ third }}' }] };
+    expect(findUndeclaredReferences(routine, { topic: { type: 'string' } })).toEqual(['other', 'third']);
+  });
+});
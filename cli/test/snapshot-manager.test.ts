@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnapshotManager } from '../src/snapshot-manager.js';
+
+describe('SnapshotManager', () => {
+  let directory: string;
+
+  const file = (filepath: string) => path.join(directory, filepath);
+  const read = (filepath: string) => fs.readFileSync(file(filepath), 'utf-8');
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aireer-snapshot-'));
+    fs.writeFileSync(file('changed.txt'), 'before\n');
+    fs.writeFileSync(file('deleted.txt'), 'kept\n');
+    fs.mkdirSync(file('folder'));
+    fs.writeFileSync(file('folder/inner.txt'), 'inner\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const changeFiles = (snapshots: SnapshotManager) => {
+    snapshots.capture('changed.txt');
+    fs.writeFileSync(file('changed.txt'), 'after\n');
+    snapshots.capture('created.txt');
+    fs.writeFileSync(file('created.txt'), 'new\n');
+    snapshots.capture('deleted.txt');
+    fs.rmSync(file('deleted.txt'));
+    snapshots.capture(file('folder'));
+    fs.rmSync(file('folder'), { recursive: true });
+  };
+
+  it('restores changed, created, deleted files and directories', () => {
+    const snapshots = new SnapshotManager(directory, 'execution-1');
+    changeFiles(snapshots);
+
+    const { restored, conflicts } = snapshots.restore();
+
+    expect(conflicts).toEqual([]);
+    expect(restored).toEqual(['folder', 'deleted.txt', 'created.txt', 'changed.txt']);
+    expect(read('changed.txt')).toBe('before\n');
+    expect(fs.existsSync(file('created.txt'))).toBe(false);
+    expect(read('deleted.txt')).toBe('kept\n');
+    expect(read('folder/inner.txt')).toBe('inner\n');
+  });
+
+  it('keeps the first state of a file captured twice', () => {
+    const snapshots = new SnapshotManager(directory, 'execution-1');
+    snapshots.capture('changed.txt');
+    fs.writeFileSync(file('changed.txt'), 'first edit\n');
+    snapshots.capture('changed.txt');
+    fs.writeFileSync(file('changed.txt'), 'second edit\n');
+
+    snapshots.restore();
+
+    expect(snapshots.getManifest().entries).toHaveLength(1);
+    expect(read('changed.txt')).toBe('before\n');
+  });
+
+  it('reports files modified after the execution unless forced', () => {
+    const snapshots = new SnapshotManager(directory, 'execution-1');
+    changeFiles(snapshots);
+    snapshots.complete();
+    fs.writeFileSync(file('changed.txt'), 'edited later\n');
+
+    const loaded = SnapshotManager.load(directory, 'execution-1')!;
+    expect(loaded.restore(false)).toEqual({ restored: [], conflicts: ['changed.txt'] });
+    expect(read('changed.txt')).toBe('edited later\n');
+    expect(loaded.getManifest().rolledBackAt).toBeUndefined();
+
+    expect(loaded.restore(true).conflicts).toEqual([]);
+    expect(read('changed.txt')).toBe('before\n');
+    expect(SnapshotManager.load(directory, 'execution-1')!.getManifest().rolledBackAt).toBeDefined();
+  });
+
+  it('records commands with the snapshot without treating them as entries', () => {
+    const snapshots = new SnapshotManager(directory, 'execution-1');
+    snapshots.recordCommand('npm run format');
+    expect(snapshots.hasEntries()).toBe(false);
+
+    snapshots.capture('changed.txt');
+    snapshots.recordCommand('npm test');
+    snapshots.complete();
+
+    expect(SnapshotManager.load(directory, 'execution-1')!.getCommands()).toEqual(['npm run format', 'npm test']);
+  });
+
+  it('stores snapshots in the config directory and prunes the oldest', () => {
+    const configDirectory = path.join(directory, 'config');
+    for (let index = 0; index < 3; index++) {
+      const snapshots = new SnapshotManager(directory, `execution-${index}`, configDirectory);
+      snapshots.capture('changed.txt');
+      const time = new Date(2026, 0, 1 + index);
+      fs.utimesSync(path.join(configDirectory, '.aireer-snapshots', `execution-${index}`), time, time);
+    }
+
+    SnapshotManager.prune(configDirectory, 2);
+
+    expect(fs.readdirSync(path.join(configDirectory, '.aireer-snapshots')).sort()).toEqual(['execution-1', 'execution-2']);
+    expect(SnapshotManager.load(directory, 'execution-2')).toBeNull();
+    expect(SnapshotManager.load(configDirectory, 'execution-2')!.getManifest().baseDirectory).toBe(path.resolve(directory));
+  });
+});
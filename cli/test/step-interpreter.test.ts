@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InterpretedStep, StepHandlers, StepInterpreter, getStepControl } from '../src/step-interpreter.js';
+
+/**
+ * action は内容を記録し、condition / loop は与えた判定結果を順番に返すハンドラー
+ */
+function createHandlers(conditions: boolean[]) {
+  const actions: string[] = [];
+  const handlers: StepHandlers = {
+    async runAction(step, context) {
+      actions.push(context.iteration ? `${step.content}#${context.iteration}` : step.content);
+      return { completed: true, output: `did ${step.content}`, turns: 1 };
+    },
+    async evaluateCondition(step, condition) {
+      const result = conditions.shift();
+      if (result === undefined) {
+        throw new Error(`unexpected evaluation of ${condition}`);
+      }
+      return { result, reason: `${condition} is ${result}`, turns: 1 };
+    }
+  };
+  return { handlers, actions };
+}
+
+const action = (content: string): InterpretedStep => ({ type: 'action', content });
+
+describe('StepInterpreter', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('runs action steps in order', async () => {
+    const { handlers, actions } = createHandlers([]);
+    const results = await new StepInterpreter([action('a'), action('b')], handlers).run();
+    expect(actions).toEqual(['a', 'b']);
+    expect(results.map(result => [result.step, result.status, result.output])).toEqual([[1, 'completed', 'did a'], [2, 'completed', 'did b']]);
+  });
+
+  it('skips the body of a false condition and runs it when true', async () => {
+    const steps = [{ type: 'condition', content: 'tests fail', parameters: { body: 2 } }, action('fix'), action('retest'), action('report')];
+
+    const skipped = createHandlers([false]);
+    const results = await new StepInterpreter(steps, skipped.handlers).run();
+    expect(skipped.actions).toEqual(['report']);
+    expect(results.map(result => result.status)).toEqual(['completed', 'skipped', 'skipped', 'completed']);
+    expect(results[0].result).toBe(false);
+
+    const taken = createHandlers([true]);
+    await new StepInterpreter(steps, taken.handlers).run();
+    expect(taken.actions).toEqual(['fix', 'retest', 'report']);
+  });
+
+  it('ends the routine or jumps to a later step', async () => {
+    const ended = createHandlers([false]);
+    const endResults = await new StepInterpreter([{ type: 'condition', content: 'work left', parameters: { onFalse: 'end' } }, action('a'), action('b')], ended.handlers).run();
+    expect(ended.actions).toEqual([]);
+    expect(endResults.filter(result => result.status === 'skipped').map(result => result.step)).toEqual([2, 3]);
+
+    const jumped = createHandlers([true]);
+    await new StepInterpreter([{ type: 'condition', content: 'ready', parameters: { onTrue: 4 } }, action('a'), action('b'), action('c')], jumped.handlers).run();
+    expect(jumped.actions).toEqual(['c']);
+  });
+
+  it('repeats the loop body until its condition holds', async () => {
+    const { handlers, actions } = createHandlers([false, false, true]);
+    const steps = [{ type: 'loop', content: 'fix tests', parameters: { body: 1, until: 'tests pass', maxIterations: 5 } }, action('fix'), action('report')];
+    const results = await new StepInterpreter(steps, handlers).run();
+    expect(actions).toEqual(['fix#1', 'fix#2', 'report']);
+    expect(results.filter(result => result.step === 1).map(result => result.result)).toEqual([false, false, true]);
+  });
+
+  it('repeats a loop without a body and records when it reaches its limit', async () => {
+    const { handlers, actions } = createHandlers([false, false]);
+    const results = await new StepInterpreter([{ type: 'loop', content: 'improve', parameters: { body: 0, maxIterations: 2 } }, action('report')], handlers).run();
+    expect(actions).toEqual(['improve#1', 'improve#2', 'report']);
+    expect(results.find(result => result.status === 'incomplete')).toMatchObject({ step: 1, output: 'Stopped after 2 iterations before the condition held: improve' });
+  });
+
+  it('records a failed step and rethrows the error', async () => {
+    const { handlers } = createHandlers([]);
+    handlers.runAction = async () => {
+      throw new Error('LLM unavailable');
+    };
+    const interpreter = new StepInterpreter([action('a'), action('b')], handlers);
+    await expect(interpreter.run()).rejects.toThrow('LLM unavailable');
+    expect(interpreter.getResults()).toEqual([expect.objectContaining({ step: 1, status: 'failed', error: 'LLM unavailable' })]);
+  });
+});
+
+describe('getStepControl', () => {
+  it('uses the defaults when the step has no parameters', () => {
+    expect(getStepControl({ type: 'condition', content: 'x' }, 1)).toEqual({ body: 1, onTrue: 'continue', onFalse: 'skip', until: 'x', maxIterations: 3 });
+  });
+
+  it('reads parameters given as a JSON string', () => {
+    expect(getStepControl({ type: 'loop', content: 'x', parameters: '{"body": 0, "maxIterations": 5}' }, 1)).toMatchObject({ body: 0, maxIterations: 5 });
+  });
+
+  it.each([
+    [{ body: -1 }, /"body"/],
+    [{ maxIterations: 21 }, /"maxIterations"/],
+    [{ onTrue: 1 }, /"onTrue"/],
+    [{ onFalse: 'restart' }, /"onFalse"/],
+    [{ until: '' }, /"until"/]
+  ])('rejects %j', (parameters, message) => {
+    expect(() => getStepControl({ type: 'condition', content: 'x', parameters }, 2)).toThrow(message);
+  });
+
+  it('validates every step before running any of them', () => {
+    const { handlers } = createHandlers([]);
+    expect(() => new StepInterpreter([action('a'), { type: 'loop', content: 'x', parameters: { maxIterations: 0 } }], handlers)).toThrow(/Step 2/);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { git } from '../src/git-integration.js';
+import { IsolatedWorkspace } from '../src/workspace-isolation.js';
+
+const routine = { id: 'test-routine', name: 'Test routine' };
+
+describe('IsolatedWorkspace', () => {
+  const directories: string[] = [];
+
+  const createRepository = (): string => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aireer-workspace-'));
+    directories.push(directory);
+    git(['init', '-q'], directory);
+    fs.writeFileSync(path.join(directory, 'tracked.txt'), 'committed\n');
+    fs.writeFileSync(path.join(directory, 'removed.txt'), 'committed\n');
+    git(['add', '-A'], directory);
+    git(['-c', 'user.name=test', '-c', 'user.email=test@localhost', 'commit', '-q', '-m', 'initial'], directory);
+    return directory;
+  };
+
+  afterEach(() => {
+    directories.splice(0).forEach(directory => fs.rmSync(directory, { recursive: true, force: true }));
+    vi.restoreAllMocks();
+  });
+
+  it('copies uncommitted and untracked changes into a worktree', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const directory = createRepository();
+    fs.writeFileSync(path.join(directory, 'tracked.txt'), 'uncommitted\n');
+    fs.rmSync(path.join(directory, 'removed.txt'));
+    fs.mkdirSync(path.join(directory, 'notes'));
+    fs.writeFileSync(path.join(directory, 'notes', 'untracked.txt'), 'new\n');
+
+    const workspace = IsolatedWorkspace.create(directory, 'worktree', 'execution-1', routine);
+    const workspacePath = workspace.getPath();
+
+    expect(workspace.getMode()).toBe('worktree');
+    expect(fs.readFileSync(path.join(workspacePath, 'tracked.txt'), 'utf-8')).toBe('uncommitted\n');
+    expect(fs.existsSync(path.join(workspacePath, 'removed.txt'))).toBe(false);
+    expect(fs.readFileSync(path.join(workspacePath, 'notes', 'untracked.txt'), 'utf-8')).toBe('new\n');
+    expect(workspace.merge()).toEqual({ merged: [], conflicts: [] });
+    workspace.discard();
+  });
+
+  it('reports files changed on both sides as conflicts without overwriting them', () => {
+    const directory = createRepository();
+    const workspace = IsolatedWorkspace.create(directory, 'copy', 'execution-2', routine);
+    fs.writeFileSync(path.join(workspace.getPath(), 'tracked.txt'), 'workspace\n');
+    fs.writeFileSync(path.join(workspace.getPath(), 'created.txt'), 'workspace\n');
+    fs.writeFileSync(path.join(directory, 'tracked.txt'), 'main\n');
+
+    expect(workspace.merge()).toEqual({ merged: ['created.txt'], conflicts: ['tracked.txt'] });
+    expect(fs.readFileSync(path.join(directory, 'tracked.txt'), 'utf-8')).toBe('main\n');
+    workspace.discard();
+  });
+});